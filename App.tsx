@@ -1,12 +1,25 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { Canvas } from './components/Canvas';
 import { PropertyPanel } from './components/PropertyPanel';
-import { LayerPanel } from './components/LayerPanel';
-import { LayoutElement, Viewport, UnitType } from './types';
-import { VIEWPORTS, DEFAULT_LAYOUT } from './constants';
-import { calculateRuntimePositions } from './utils/layoutUtils';
-import * as yaml from 'js-yaml';
-import { Layout, FileText, Square, Circle, Plus, Code, Eye, Laptop, Minus, Search, Smartphone, Monitor, Tv, Tablet, Scan, Play } from 'lucide-react';
+import { LayerFlag, LayerPanel } from './components/LayerPanel';
+import { YamlEditor } from './components/YamlEditor';
+import { DiagnosticList } from './components/DiagnosticList';
+import { CodeExportView } from './components/CodeExportView';
+import { ContextMenu, ContextMenuItem } from './components/ContextMenu';
+import { LayoutElement, LayoutConfig, Viewport, UnitType, LayoutMode } from './types';
+import { VIEWPORTS, BREAKPOINTS, DEFAULT_LAYOUT, ROOT_PARENT_ID } from './constants';
+import { getLayoutDiagnostics, layoutDocument, placeElementAtRect, relayoutElement } from './utils/layoutUtils';
+import { applyEditedLayout, formatBreakpoint, matchesBreakpoint, resetOverrides, withEffectiveLayouts, writeLayout } from './utils/breakpoints';
+import { parseDocument, serializeDocument } from './utils/dslYaml';
+import { copySubtrees, deleteElements, duplicateElements, getFragmentRoots, getPasteTarget, moveElement, pasteFragment, pinParents } from './utils/editCommands';
+import { exportHtml } from './utils/htmlExport';
+import { exportSvg, exportSvgSheet } from './utils/svgExport';
+import { exportFlutter } from './utils/flutterExport';
+import { exportReactNative } from './utils/reactNativeExport';
+import { DslDiagnostic } from './utils/dslValidator';
+import { useDocumentHistory } from './hooks/useDocumentHistory';
+import { SnapOptions } from './utils/snapping';
+import { Layout, FileText, Square, Circle, Plus, Code, Eye, Laptop, Minus, Search, Smartphone, Monitor, Tv, Tablet, Scan, Play, Upload, X, Undo2, Redo2, Magnet, Globe, MonitorSmartphone, Download, ScanSearch, Image, ChevronDown, Check } from 'lucide-react';
 import clsx from 'clsx';
 
 const INITIAL_ELEMENTS_RAW: LayoutElement[] = [
@@ -54,6 +67,21 @@ const INITIAL_ELEMENTS_RAW: LayoutElement[] = [
   }
 ];
 
+const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Shortcuts acting on the selection leave typing in form fields alone
+const isEditableTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
 const getViewportIcon = (name: string) => {
     switch (name) {
         case 'Mobile': return <Smartphone size={14} />;
@@ -67,34 +95,152 @@ const getViewportIcon = (name: string) => {
 export default function App() {
   const [viewport, setViewport] = useState<Viewport>(VIEWPORTS[0]);
   
-  // Initialize elements with calculated runtime positions immediately
-  const [elements, setElements] = useState<LayoutElement[]>(() => {
-      return calculateRuntimePositions(INITIAL_ELEMENTS_RAW, VIEWPORTS[0]);
-  });
+  // Initialize elements with calculated runtime positions immediately.
+  // Every document mutation goes through `commit` so it can be undone;
+  // snapshots restored by undo/redo are re-laid out for the current viewport.
+  const { elements, layout, commit, replace, undo, redo, undoLabel, redoLabel } = useDocumentHistory(
+      () => layoutDocument(INITIAL_ELEMENTS_RAW, VIEWPORTS[0]),
+      (snapshot) => layoutDocument(snapshot, viewport)
+  );
   
   const [scale, setScale] = useState(1);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [mode, setMode] = useState<'editor' | 'yaml' | 'preview'>('editor');
+  // Which document view the YAML mode shows: the editable source or generated code
+  const [codeTab, setCodeTab] = useState<'yaml' | 'flutter' | 'react-native'>('yaml');
+  
+  const [snap, setSnap] = useState<SnapOptions>({ enabled: true, gridSize: 0 });
+  // Whether edits go into the current viewport's breakpoint instead of the base layout
+  const [editBreakpointOnly, setEditBreakpointOnly] = useState(false);
+  // Preview: flag boxes the browser lays out differently from the engine
+  const [checkRects, setCheckRects] = useState(false);
+  const [svgMenuOpen, setSvgMenuOpen] = useState(false);
+  const [svgAnnotations, setSvgAnnotations] = useState(false);
+  const [importDiagnostics, setImportDiagnostics] = useState<DslDiagnostic[]>([]);
+  // Where the diagnostics above come from: a file name or the clipboard
+  const [importSource, setImportSource] = useState('');
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; ids: string[] } | null>(null);
   
   const workspaceRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Recalculate ALL positions when Viewport Changes
+  const activeBreakpoint = BREAKPOINTS.find(bp => matchesBreakpoint(bp, viewport.width)) || null;
+  const editBreakpoint = editBreakpointOnly ? activeBreakpoint : null;
+
+  // The editor works on each element's layout as resolved for this viewport;
+  // its edits are written back into `editBreakpoint` (or the base layout)
+  const viewElements = useMemo(() => withEffectiveLayouts(elements, viewport), [elements, viewport]);
+  // The layout behind `elements`: the one the last change handed back, or a fresh one after a
+  // change that only produced elements (e.g. a canvas drag)
+  const layoutState = useMemo(
+    () => layout && layout.elements === elements ? layout : layoutDocument(elements, viewport),
+    [elements, layout, viewport]
+  );
+  // Cycles, containment ties and other ambiguities of this layout, flagged in the layer panel
+  const layoutDiagnostics = useMemo(() => getLayoutDiagnostics(layoutState), [layoutState]);
+  const writeBack = (prev: LayoutElement[], edited: LayoutElement[]) =>
+    edited.map((next) => {
+      const original = prev.find(el => el.id === next.id);
+      return original ? applyEditedLayout(original, next, editBreakpoint, viewport) : next;
+    });
+
+  // Recalculate ALL positions when Viewport Changes (derived state, not an undo step)
   useEffect(() => {
-    setElements(prev => calculateRuntimePositions(prev, viewport));
+    replace(prev => layoutDocument(prev, viewport));
   }, [viewport.width, viewport.height]);
 
+  // Undo / Redo shortcuts. Form fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || !(e.metaKey || e.ctrlKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // Handle Property Updates from Panel
   // When properties change, we MUST recalculate to see where things move
   const updateElement = (id: string, newLayout: Partial<LayoutElement['layout']>) => {
-    setElements((prev) => {
-      const updated = prev.map((el) => {
-        if (el.id === id) {
-          return { ...el, layout: { ...el.layout, ...newLayout } };
+    const target = elements.find(el => el.id === id);
+    const keys = Object.keys(newLayout);
+    const label = `Change ${keys.join(', ')}${target ? ` of ${target.name}` : ''}`;
+    // Typing into the same input merges into one step
+    commit(label, (prev) => {
+      // `undefined` removes an optional property (e.g. a cleared constraint)
+      const updated = prev.map((el) => el.id === id ? writeLayout(el, newLayout, editBreakpoint, viewport) : el);
+      // Recalculate positions based on the new config; only what this element affects is laid out again
+      return relayoutElement(layoutState, updated, id, viewport);
+    }, { mergeKey: `${id}:${keys.join(',')}` });
+  };
+
+  // Drop overridden values on this viewport so the base layout shows through (all of them without `keys`)
+  const handleResetOverrides = (id: string, keys?: (keyof LayoutConfig)[]) => {
+    const target = elements.find(el => el.id === id);
+    if (!target) return;
+    commit(`Reset ${keys ? keys.join(', ') : 'overrides'} of ${target.name}`, (prev) => {
+      const updated = prev.map((el) => el.id === id ? resetOverrides(el, viewport, keys) : el);
+      return relayoutElement(layoutState, updated, id, viewport);
+    });
+  };
+
+  // Pin the element to the parent it currently resolves to, on every viewport
+  const handleLockParent = (id: string) => {
+    const target = elements.find(el => el.id === id);
+    if (!target) return;
+    commit(`Lock parent of ${target.name}`, (prev) => {
+      const updated = prev.map((el) =>
+        el.id === id ? { ...el, parent: el._runtime?.parentId || ROOT_PARENT_ID } : el
+      );
+      return layoutDocument(updated, viewport);
+    });
+  };
+
+  // Drop the explicit parent and re-anchor the element by containment, keeping it where it is
+  const handleRedetectParent = (id: string) => {
+    const target = elements.find(el => el.id === id);
+    if (!target) return;
+    commit(`Re-detect parent of ${target.name}`, (prev) => {
+      const view = withEffectiveLayouts(prev, viewport);
+      const el = view.find(e => e.id === id);
+      if (!el || !el._runtime) return prev;
+      const { parent, ...unlocked } = el;
+      const placed = placeElementAtRect(unlocked, el._runtime, view, viewport);
+      return layoutDocument(writeBack(prev, view.map(e => e.id === id ? placed : e)), viewport);
+    });
+  };
+
+  // Switch a container's layout mode without moving its children: a new stack or grid
+  // adopts its current children (a grid puts each in the cells it covers), leaving one
+  // re-anchors them where they are
+  const handleSetLayoutMode = (id: string, mode: LayoutMode) => {
+    const target = viewElements.find(el => el.id === id);
+    if (!target || (target.layout.layoutMode || 'absolute') === mode) return;
+    commit(`Use ${mode} layout for ${target.name}`, (prev) => {
+      const view = withEffectiveLayouts(prev, viewport);
+      let updated = view.map((el) => {
+        if (el.id !== id) return el;
+        const layout = { ...el.layout, layoutMode: mode };
+        if (mode === 'stack' && !layout.stack) layout.stack = { direction: 'column' };
+        if (mode === 'grid' && !layout.grid) {
+          layout.grid = { columns: [{ value: 1, unit: 'fr' }, { value: 1, unit: 'fr' }], rows: [{ value: 1, unit: 'fr' }, { value: 1, unit: 'fr' }] };
         }
-        return el;
+        return { ...el, layout };
+      });
+      view.filter(el => el._runtime?.parentId === id).forEach((child) => {
+        const adopted = mode === 'absolute' ? child : { ...child, parent: id };
+        const placed = placeElementAtRect(adopted, child._runtime!, updated, viewport);
+        updated = updated.map(el => el.id === child.id ? placed : el);
       });
-      // Recalculate positions based on the new config
-      return calculateRuntimePositions(updated, viewport);
+      return layoutDocument(writeBack(prev, updated), viewport);
     });
   };
 
@@ -102,8 +248,8 @@ export default function App() {
   // When dragging, we trust the Canvas to provide the new _runtime AND the new layout.
   // We DO NOT run calculateRuntimePositions here, because we want to avoid the "jump".
   // The Canvas has already ensured _runtime matches the mouse position.
-  const handleCanvasUpdate = (newElements: LayoutElement[]) => {
-      setElements(newElements);
+  const handleCanvasUpdate = (newElements: LayoutElement[], label: string) => {
+      commit(label, prev => writeBack(prev, newElements));
   };
 
   const addElement = (type: 'rect' | 'circle') => {
@@ -123,8 +269,113 @@ export default function App() {
       }
     };
     // Add and recalculate to place it correctly
-    setElements(prev => calculateRuntimePositions([...prev, newEl], viewport));
-    setSelectedId(id);
+    commit(`Add ${newEl.name}`, prev => layoutDocument([...prev, newEl], viewport));
+    setSelectedIds([id]);
+  };
+
+  // e.g. `Header` or `3 elements`, for undo labels
+  const describeElements = (ids: string[]) =>
+    ids.length === 1 ? (elements.find(el => el.id === ids[0])?.name ?? '1 element') : `${ids.length} elements`;
+
+  // Children of a deleted container stay where they are, re-anchored to whatever contains
+  // them now, unless `withChildren` deletes them as well
+  const handleDelete = (ids: string[], withChildren: boolean) => {
+    if (ids.length === 0) return;
+    commit(`Delete ${describeElements(ids)}${withChildren ? ' with children' : ''}`, (prev) => {
+      const view = withEffectiveLayouts(prev, viewport);
+      return layoutDocument(writeBack(prev, deleteElements(view, ids, withChildren, viewport)), viewport);
+    });
+    setSelectedIds([]);
+  };
+
+  // Copies go in place, into the same container as their originals, which keep their parent
+  const handleDuplicate = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const added = duplicateElements(elements, ids);
+    commit(`Duplicate ${describeElements(ids)}`, prev => layoutDocument([...pinParents(prev, ids), ...added], viewport));
+    setSelectedIds(getFragmentRoots(added).map(el => el.id));
+  };
+
+  // The elements and everything nested in them, as DSL YAML for the system clipboard
+  const getClipboardYaml = (ids: string[]) => serializeDocument(copySubtrees(elements, ids));
+
+  const handleCopy = (ids: string[]) => {
+    if (ids.length === 0) return;
+    navigator.clipboard.writeText(getClipboardYaml(ids)).catch(() => undefined);
+  };
+
+  // Pastes DSL YAML (from this or another document) with fresh ids. Its topmost elements go
+  // into the container the selection points at, their offsets relative to it.
+  const handlePaste = (text: string, ids: string[]) => {
+    const result = parseDocument(text);
+    setImportDiagnostics(result.diagnostics);
+    setImportSource('clipboard');
+    if (!result.elements || result.elements.length === 0) return;
+    const added = pasteFragment(elements, result.elements, getPasteTarget(elements, ids, result.elements));
+    commit(`Paste ${added.length === 1 ? added[0].name : `${added.length} elements`}`, prev => layoutDocument([...prev, ...added], viewport));
+    setSelectedIds(getFragmentRoots(added).map(el => el.id));
+  };
+
+  const handlePasteFromClipboard = (ids: string[]) => {
+    navigator.clipboard.readText().then(text => handlePaste(text, ids)).catch(() => undefined);
+  };
+
+  // Delete, duplicate, copy and paste shortcuts for the canvas selection
+  useEffect(() => {
+    if (mode !== 'editor') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        if (selectedIds.length === 0) return;
+        e.preventDefault();
+        handleDelete(selectedIds, e.shiftKey);
+      } else if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        handleDuplicate(selectedIds);
+      }
+    };
+    // Native clipboard events need no permission, unlike the async clipboard API
+    const handleCopyEvent = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || selectedIds.length === 0) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', getClipboardYaml(selectedIds));
+    };
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const text = e.clipboardData?.getData('text/plain');
+      if (!text) return;
+      e.preventDefault();
+      handlePaste(text, selectedIds);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleCopyEvent);
+    window.addEventListener('paste', handlePasteEvent);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('copy', handleCopyEvent);
+      window.removeEventListener('paste', handlePasteEvent);
+    };
+  }, [mode, selectedIds, elements, viewport, editBreakpoint]);
+
+  // Right click acts on the selection if it hits a selected element, else on what it hits
+  const handleContextMenu = (e: React.MouseEvent, id: string | null) => {
+    e.preventDefault();
+    const ids = id === null ? [] : selectedIds.includes(id) ? selectedIds : [id];
+    setSelectedIds(ids);
+    setContextMenu({ x: e.clientX, y: e.clientY, ids });
+  };
+
+  const getContextMenuItems = (ids: string[]): (ContextMenuItem | null)[] => {
+    const hasChildren = viewElements.some(el => el._runtime?.parentId && ids.includes(el._runtime.parentId));
+    const none = ids.length === 0;
+    return [
+      { label: 'Copy', shortcut: 'Ctrl+C', onClick: () => handleCopy(ids), disabled: none },
+      { label: 'Paste', shortcut: 'Ctrl+V', onClick: () => handlePasteFromClipboard(ids) },
+      { label: 'Duplicate', shortcut: 'Ctrl+D', onClick: () => handleDuplicate(ids), disabled: none },
+      null,
+      { label: hasChildren ? 'Delete, keep children' : 'Delete', shortcut: 'Del', onClick: () => handleDelete(ids, false), disabled: none, danger: true },
+      ...(hasChildren ? [{ label: 'Delete with children', shortcut: 'Shift+Del', onClick: () => handleDelete(ids, true), danger: true }] : []),
+    ];
   };
 
   const handleViewportResize = (dim: 'width' | 'height', val: string) => {
@@ -156,26 +407,89 @@ export default function App() {
       return () => clearTimeout(timer);
   }, []);
 
-  const handleLayerReorder = (sortedIds: string[]) => {
-      const total = sortedIds.length;
-      setElements(prev => {
-          const updated = prev.map(el => {
-              const index = sortedIds.indexOf(el.id);
-              if (index === -1) return el;
-              return {
-                  ...el,
-                  layout: { ...el.layout, zIndex: total - index }
-              };
-          });
+  // Layer panel selection: shift toggles membership, a plain click selects only that layer
+  const handleLayerSelect = (id: string, additive: boolean) => {
+      if (!additive) {
+          setSelectedIds([id]);
+          return;
+      }
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  // Layer panel drag and drop: a new parent keeps the element where it is on the canvas,
+  // the same parent only changes its order there
+  const handleLayerMove = (id: string, parentId: string | null, siblingIds: string[]) => {
+      const target = elements.find(el => el.id === id);
+      if (!target) return;
+      const reparent = (target._runtime?.parentId ?? null) !== parentId;
+      const parentName = parentId ? elements.find(el => el.id === parentId)?.name : 'Canvas';
+      commit(reparent ? `Move ${target.name} into ${parentName}` : 'Reorder layers', prev => {
+          const view = withEffectiveLayouts(prev, viewport);
           // Re-run layout because z-index affects parenting
-          return calculateRuntimePositions(updated, viewport);
+          return layoutDocument(writeBack(prev, moveElement(view, id, parentId, siblingIds, viewport)), viewport);
       });
   };
 
-  const yamlString = useMemo(() => {
-    const cleanElements = elements.map(({ _runtime, ...rest }) => rest);
-    return yaml.dump(cleanElements);
-  }, [elements]);
+  // Lock and hide are saved with the document. Hiding can change containment (hiddenContains),
+  // so the element is laid out again.
+  const handleToggleLayerFlag = (id: string, flag: LayerFlag) => {
+      const target = elements.find(el => el.id === id);
+      if (!target) return;
+      const verb = flag === 'hidden' ? (target.hidden ? 'Show' : 'Hide') : (target.locked ? 'Unlock' : 'Lock');
+      commit(`${verb} ${target.name}`, (prev) => {
+          const updated = prev.map((el) => {
+              if (el.id !== id) return el;
+              // Cleared flags are left out of the YAML
+              const { [flag]: current, ...rest } = el;
+              return current ? rest : { ...rest, [flag]: true };
+          });
+          return relayoutElement(layoutState, updated, id, viewport);
+      });
+  };
+
+  // Apply a hand-edited YAML document. Only called with documents that parsed cleanly.
+  const handleYamlApply = (newElements: LayoutElement[]) => {
+      commit('Edit YAML', () => layoutDocument(newElements, viewport), { mergeKey: 'yaml' });
+  };
+
+  // Import a layout.yaml file. Invalid documents are rejected with their diagnostics.
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const result = parseDocument(await file.text());
+      setImportDiagnostics(result.diagnostics);
+      setImportSource(file.name);
+      if (result.elements) {
+          commit(`Import ${file.name}`, () => layoutDocument(result.elements!, viewport));
+          setSelectedIds([]);
+      }
+  };
+
+  // Download the document as layout.html + layout.css
+  const handleExportHtml = () => {
+      const { html, css } = exportHtml(elements, { viewport, stylesheetHref: 'layout.css' });
+      downloadFile('layout.html', html, 'text/html');
+      downloadFile('layout.css', css, 'text/css');
+  };
+
+  const handleExportSvg = (sheet: boolean) => {
+      const svg = sheet
+          ? exportSvgSheet(elements, { annotations: svgAnnotations })
+          : exportSvg(elements, { viewport, annotations: svgAnnotations });
+      downloadFile(sheet ? 'layout-sheet.svg' : `layout-${viewport.name.toLowerCase()}.svg`, svg, 'image/svg+xml');
+      setSvgMenuOpen(false);
+  };
+
+  const flutterCode = useMemo(
+      () => (mode === 'yaml' && codeTab === 'flutter' ? exportFlutter(elements, { viewport }) : ''),
+      [mode, codeTab, elements, viewport]
+  );
+  const reactNativeExport = useMemo(
+      () => (mode === 'yaml' && codeTab === 'react-native' ? exportReactNative(elements, { viewport }) : null),
+      [mode, codeTab, elements, viewport]
+  );
 
   return (
     <div className="flex flex-col h-screen w-screen bg-gray-950 text-white">
@@ -204,9 +518,98 @@ export default function App() {
                 ))}
             </div>
           )}
+
+          {mode === 'editor' && activeBreakpoint && (
+            <button
+                onClick={() => setEditBreakpointOnly(prev => !prev)}
+                className={clsx(
+                    "px-3 py-1.5 text-xs border rounded flex items-center gap-2 transition-colors",
+                    editBreakpointOnly ? "bg-amber-500/20 border-amber-500/50 text-amber-300" : "border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+                )}
+                title={editBreakpointOnly
+                    ? `Edits only apply to ${formatBreakpoint(activeBreakpoint)}. Click to edit all viewports.`
+                    : `Edits apply to all viewports. Click to edit ${activeBreakpoint.name} (${formatBreakpoint(activeBreakpoint)}) only.`}
+            >
+                {editBreakpointOnly ? <MonitorSmartphone size={14} /> : <Globe size={14} />}
+                {editBreakpointOnly ? `Editing ${activeBreakpoint.name} only` : 'Editing all viewports'}
+            </button>
+          )}
+
+          {mode === 'preview' && (
+            <button
+                onClick={() => setCheckRects(prev => !prev)}
+                className={clsx(
+                    "px-3 py-1.5 text-xs border rounded flex items-center gap-2 transition-colors",
+                    checkRects ? "bg-red-500/20 border-red-500/50 text-red-300" : "border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+                )}
+                title="Outline every box whose rendered rect differs from the editor's"
+            >
+                <ScanSearch size={14} /> Check against editor
+            </button>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+            <button 
+                onClick={undo}
+                disabled={!undoLabel}
+                className="p-1.5 text-gray-400 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+                <Undo2 size={14} />
+            </button>
+            <button 
+                onClick={redo}
+                disabled={!redoLabel}
+                className="p-1.5 text-gray-400 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+                <Redo2 size={14} />
+            </button>
+            <div className="h-4 w-px bg-gray-800 mx-1" />
+            <input ref={importInputRef} type="file" accept=".yaml,.yml" className="hidden" onChange={handleImportFile} />
+            <button 
+                onClick={() => importInputRef.current?.click()}
+                className="px-3 py-1.5 text-xs border border-gray-700 rounded flex items-center gap-2 bg-gray-800 hover:bg-gray-700"
+                title="Import layout.yaml"
+            >
+                <Upload size={14} /> Import
+            </button>
+            <button 
+                onClick={handleExportHtml}
+                className="px-3 py-1.5 text-xs border border-gray-700 rounded flex items-center gap-2 bg-gray-800 hover:bg-gray-700"
+                title="Export as HTML + CSS"
+            >
+                <Download size={14} /> HTML
+            </button>
+            <div className="relative">
+                <button 
+                    onClick={() => setSvgMenuOpen(prev => !prev)}
+                    className="px-3 py-1.5 text-xs border border-gray-700 rounded flex items-center gap-2 bg-gray-800 hover:bg-gray-700"
+                    title="Export a picture of the layout as SVG"
+                >
+                    <Image size={14} /> SVG <ChevronDown size={12} />
+                </button>
+                {svgMenuOpen && (
+                    <>
+                        <div className="fixed inset-0 z-40" onClick={() => setSvgMenuOpen(false)} />
+                        <div className="absolute right-0 top-full mt-1 z-50 w-56 bg-gray-900 border border-gray-700 rounded shadow-2xl py-1 text-xs">
+                            <button onClick={() => handleExportSvg(false)} className="w-full px-3 py-1.5 text-left hover:bg-gray-800">
+                                {viewport.name} ({viewport.width}×{viewport.height})
+                            </button>
+                            <button onClick={() => handleExportSvg(true)} className="w-full px-3 py-1.5 text-left hover:bg-gray-800">
+                                All viewports as one sheet
+                            </button>
+                            <div className="h-px bg-gray-800 my-1" />
+                            <button onClick={() => setSvgAnnotations(prev => !prev)} className="w-full px-3 py-1.5 text-left hover:bg-gray-800 flex items-center gap-2 text-gray-300">
+                                <span className="w-3">{svgAnnotations && <Check size={12} />}</span>
+                                Anchor annotations
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+            <div className="h-4 w-px bg-gray-800 mx-1" />
             <button 
                 onClick={() => setMode('editor')}
                 className={clsx("px-3 py-1.5 text-xs border border-gray-700 rounded flex items-center gap-2", mode === 'editor' ? "bg-blue-600 text-white" : "bg-gray-800 hover:bg-gray-700")}
@@ -229,6 +632,28 @@ export default function App() {
       </div>
 
       <div className="flex flex-1 overflow-hidden relative">
+        {contextMenu && (
+            <ContextMenu
+                x={contextMenu.x}
+                y={contextMenu.y}
+                items={getContextMenuItems(contextMenu.ids)}
+                onClose={() => setContextMenu(null)}
+            />
+        )}
+
+        {/* Import Diagnostics */}
+        {importDiagnostics.length > 0 && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 w-[36rem] max-h-64 overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-3 custom-scrollbar">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-bold text-gray-300">Diagnostics for {importSource}</span>
+                    <button onClick={() => setImportDiagnostics([])} className="p-0.5 text-gray-500 hover:text-white">
+                        <X size={14} />
+                    </button>
+                </div>
+                <DiagnosticList diagnostics={importDiagnostics} />
+            </div>
+        )}
+
         {/* Left Toolbar (Tools) */}
         {mode === 'editor' && (
             <div className="w-14 border-r border-gray-800 bg-gray-900 flex flex-col items-center py-4 gap-4 shrink-0 z-30 relative">
@@ -253,48 +678,77 @@ export default function App() {
         {mode === 'editor' || mode === 'preview' ? (
             <div className="flex-1 flex relative overflow-hidden" ref={workspaceRef}>
                 <Canvas 
-                    elements={elements} 
+                    elements={viewElements} 
                     viewport={viewport} 
                     scale={scale}
-                    selectedId={selectedId}
-                    onSelect={setSelectedId}
+                    selectedIds={selectedIds}
+                    onSelect={setSelectedIds}
                     onUpdateElements={handleCanvasUpdate}
+                    snap={snap}
                     mode={mode}
+                    checkRects={checkRects}
+                    onContextMenu={handleContextMenu}
                 />
                 
                 {/* Layer Panel (Floating Bottom Left) - Only Editor */}
                 {mode === 'editor' && (
                     <div className="absolute left-4 bottom-4 z-40">
                     <LayerPanel 
-                        elements={elements}
-                        selectedId={selectedId}
-                        onSelect={setSelectedId}
-                        onReorder={handleLayerReorder}
+                        elements={viewElements}
+                        selectedIds={selectedIds}
+                        diagnostics={layoutDiagnostics}
+                        onSelect={handleLayerSelect}
+                        onMove={handleLayerMove}
+                        onToggleFlag={handleToggleLayerFlag}
+                        onContextMenu={handleContextMenu}
                     />
                     </div>
                 )}
             </div>
         ) : (
             <div className="flex-1 bg-gray-950 p-8 overflow-auto">
-                <div className="max-w-3xl mx-auto bg-gray-900 border border-gray-800 rounded-lg p-6 shadow-2xl">
-                    <div className="flex items-center justify-between mb-4 pb-4 border-b border-gray-800">
-                        <h3 className="font-mono text-sm text-blue-400">layout.yaml</h3>
-                        <span className="text-xs text-gray-500">Generated automatically</span>
-                    </div>
-                    <pre className="font-mono text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">
-                        {yamlString}
-                    </pre>
+                <div className="max-w-3xl mx-auto flex gap-1 mb-3">
+                    {([['yaml', 'layout.yaml'], ['flutter', 'Flutter'], ['react-native', 'React Native']] as const).map(([tab, label]) => (
+                        <button
+                            key={tab}
+                            onClick={() => setCodeTab(tab)}
+                            className={clsx("px-3 py-1 text-xs rounded", codeTab === tab ? "bg-gray-800 text-white" : "text-gray-500 hover:text-white")}
+                        >
+                            {label}
+                        </button>
+                    ))}
                 </div>
+                {codeTab === 'yaml' && <YamlEditor elements={elements} onApply={handleYamlApply} />}
+                {codeTab === 'flutter' && (
+                    <CodeExportView
+                        fileName="layout_flow_layout.dart"
+                        code={flutterCode}
+                        onDownload={() => downloadFile('layout_flow_layout.dart', flutterCode, 'text/plain')}
+                    />
+                )}
+                {codeTab === 'react-native' && reactNativeExport && (
+                    <CodeExportView
+                        fileName="LayoutFlowLayout.tsx"
+                        code={reactNativeExport.code}
+                        diagnostics={reactNativeExport.diagnostics}
+                        onDownload={() => downloadFile('LayoutFlowLayout.tsx', reactNativeExport.code, 'text/plain')}
+                    />
+                )}
             </div>
         )}
 
         {/* Right Property Panel - Only Editor */}
         {mode === 'editor' && (
             <PropertyPanel 
-                selectedId={selectedId}
-                elements={elements}
+                selectedIds={selectedIds}
+                elements={viewElements}
                 viewport={viewport}
+                editBreakpoint={editBreakpoint}
                 onUpdate={updateElement}
+                onLockParent={handleLockParent}
+                onRedetectParent={handleRedetectParent}
+                onSetLayoutMode={handleSetLayoutMode}
+                onResetOverrides={handleResetOverrides}
             />
         )}
       </div>
@@ -320,6 +774,31 @@ export default function App() {
                     />
                 </div>
             </div>
+
+            <div className="h-4 w-px bg-gray-800 mx-1" />
+
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setSnap(prev => ({ ...prev, enabled: !prev.enabled }))}
+                    className={clsx("px-2 py-0.5 rounded text-xs flex items-center gap-1.5 border", snap.enabled ? "bg-blue-600/20 border-blue-500/40 text-blue-300" : "border-gray-700 text-gray-500 hover:text-white")}
+                    title="Snap to parent, siblings and grid (hold Alt while dragging to bypass)"
+                >
+                    <Magnet size={12} /> Snap
+                </button>
+                <span className="text-xs text-gray-500 uppercase font-semibold">Grid</span>
+                <input 
+                    type="number" 
+                    min={0}
+                    value={snap.gridSize}
+                    disabled={!snap.enabled}
+                    onChange={(e) => {
+                        const num = parseInt(e.target.value);
+                        setSnap(prev => ({ ...prev, gridSize: isNaN(num) ? 0 : Math.max(0, num) }));
+                    }}
+                    className="w-12 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-center focus:border-blue-500 outline-none disabled:opacity-40" 
+                    title="Pixel grid size (0 = off)"
+                />
+            </div>
         </div>
 
         <div className="flex items-center gap-2">
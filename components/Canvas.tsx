@@ -1,17 +1,27 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { DragState, LayoutElement, Viewport, UnitType, LayoutValue, LayoutConfig } from '../types';
+import React, { useRef, useState, useEffect, useLayoutEffect, useMemo } from 'react';
+import { DragState, LayoutElement, Viewport, UnitType, LayoutValue, LayoutConfig, Rect } from '../types';
 import { RESIZE_HANDLES } from '../constants';
-import { convertAbsoluteToOffset, getParentRect, fromPixels } from '../utils/layoutUtils';
+import { placeElementAtRect, clampSize, getParentRect, getDerivedDimension, getStackConfig, getGridConfig, isAutoLayout, getContentRect, resolveGrid, calculateRuntimePositions } from '../utils/layoutUtils';
+import { getStackInsertIndex } from '../utils/stackLayout';
+import { formatLayoutValue } from '../utils/layoutExpression';
+import { getCssChildren, getLayoutStyle } from '../utils/cssLayout';
+import { SnapGuide, SnapOptions, collectSnapTargets, snapMove, snapResize } from '../utils/snapping';
+import { getHiddenIds } from '../utils/editCommands';
 import clsx from 'clsx';
 
 interface CanvasProps {
   elements: LayoutElement[];
   viewport: Viewport;
   scale: number;
-  selectedId: string | null;
-  onSelect: (id: string | null) => void;
-  onUpdateElements: (elements: LayoutElement[]) => void;
+  selectedIds: string[];
+  onSelect: (ids: string[]) => void;
+  onUpdateElements: (elements: LayoutElement[], label: string) => void;
+  snap: SnapOptions;
   mode: 'editor' | 'preview' | 'yaml';
+  // Preview only: outline every box the browser places differently from the layout engine
+  checkRects?: boolean;
+  // Right click on an element, or on the empty canvas with a null id
+  onContextMenu?: (e: React.MouseEvent, id: string | null) => void;
 }
 
 const UnitBadge: React.FC<{ label: string; value: LayoutValue; className?: string }> = ({ label, value, className }) => {
@@ -25,7 +35,11 @@ const UnitBadge: React.FC<{ label: string; value: LayoutValue; className?: strin
     return (
         <div className={clsx("absolute bg-blue-600 text-white text-[10px] px-1.5 py-0.5 rounded shadow-sm whitespace-nowrap z-[60] pointer-events-none flex gap-1 select-none items-center", className)}>
             <span className="opacity-75 uppercase font-bold text-[9px]">{label}</span>
-            <span className="font-mono">{value.value < 1 && value.value > -1 ? value.value.toFixed(1) : value.value.toFixed(0)} <span className="text-blue-200">{unitLabel}</span></span>
+            {value.terms && value.terms.length > 0 ? (
+                <span className="font-mono">{formatLayoutValue(value)}</span>
+            ) : (
+                <span className="font-mono">{value.value < 1 && value.value > -1 ? value.value.toFixed(1) : value.value.toFixed(0)} <span className="text-blue-200">{unitLabel}</span></span>
+            )}
         </div>
     );
 }
@@ -51,7 +65,7 @@ const MeasurementOverlay: React.FC<{
     const containerX = isGlobalX ? 0 : parentRect.x;
     const containerW = isGlobalX ? window.innerWidth : parentRect.w; 
 
-    if (anchorX === 'left') {
+    if (anchorX === 'left' || anchorX === 'stretch') {
         lineXStart = targetRect.x;
         lineXEnd = containerX;
         showLineX = true;
@@ -73,7 +87,7 @@ const MeasurementOverlay: React.FC<{
     let lineYEnd = 0;
     let showLineY = false;
 
-    if (anchorY === 'top') {
+    if (anchorY === 'top' || anchorY === 'stretch') {
         lineYStart = targetRect.y;
         lineYEnd = containerY;
         showLineY = true;
@@ -104,7 +118,7 @@ const MeasurementOverlay: React.FC<{
                         height: 1
                     }}
                  >
-                     <div className={clsx("absolute -top-4 text-[9px] font-bold text-red-500 bg-gray-950/50 px-1 rounded", anchorX === 'left' ? "left-0" : anchorX === 'right' ? "right-0" : "left-1/2 -translate-x-1/2")}>
+                     <div className={clsx("absolute -top-4 text-[9px] font-bold text-red-500 bg-gray-950/50 px-1 rounded", anchorX === 'left' || anchorX === 'stretch' ? "left-0" : anchorX === 'right' ? "right-0" : "left-1/2 -translate-x-1/2")}>
                         {distX.toFixed(0)}
                      </div>
                     {/* Dots */}
@@ -124,7 +138,7 @@ const MeasurementOverlay: React.FC<{
                         width: 1
                     }}
                  >
-                     <div className={clsx("absolute -left-6 text-[9px] font-bold text-red-500 bg-gray-950/50 px-1 rounded", anchorY === 'top' ? "top-0" : anchorY === 'bottom' ? "bottom-0" : "top-1/2 -translate-y-1/2")}>
+                     <div className={clsx("absolute -left-6 text-[9px] font-bold text-red-500 bg-gray-950/50 px-1 rounded", anchorY === 'top' || anchorY === 'stretch' ? "top-0" : anchorY === 'bottom' ? "bottom-0" : "top-1/2 -translate-y-1/2")}>
                         {distY.toFixed(0)}
                      </div>
                      {/* Dots */}
@@ -153,66 +167,151 @@ const MeasurementOverlay: React.FC<{
     );
 };
 
+const ResizeHandles: React.FC<{ onHandleMouseDown: (e: React.MouseEvent, handle: string) => void }> = ({ onHandleMouseDown }) => (
+    <>
+        {RESIZE_HANDLES.map((h) => (
+        <div
+            key={h}
+            onMouseDown={(e) => onHandleMouseDown(e, h)}
+            className={clsx(
+            "absolute w-3 h-3 bg-white border border-blue-500 rounded-full z-50 pointer-events-auto",
+            h === 'nw' && "-top-1.5 -left-1.5 cursor-nw-resize",
+            h === 'n' && "-top-1.5 left-1/2 -translate-x-1/2 cursor-n-resize",
+            h === 'ne' && "-top-1.5 -right-1.5 cursor-ne-resize",
+            h === 'e' && "top-1/2 -right-1.5 -translate-y-1/2 cursor-e-resize",
+            h === 'se' && "-bottom-1.5 -right-1.5 cursor-se-resize",
+            h === 's' && "bottom-1.5 left-1/2 -translate-x-1/2 -translate-y-0 cursor-s-resize",
+            h === 'sw' && "-bottom-1.5 -left-1.5 cursor-sw-resize",
+            h === 'w' && "top-1/2 -left-1.5 -translate-y-1/2 cursor-w-resize"
+            )}
+        />
+        ))}
+    </>
+);
+
+// Snap distance in screen pixels (converted to canvas pixels using the zoom)
+const SNAP_THRESHOLD = 6;
+const MIN_SIZE = 10;
+
+const getBoundingRect = (rects: Rect[]): Rect => {
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.width));
+    const maxY = Math.max(...rects.map(r => r.y + r.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const rectsIntersect = (a: Rect, b: Rect) =>
+    a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+// Reshapes a resized box to the proportions of `initial`. Corner handles follow the edge that
+// moved furthest; edge handles drive the other dimension. Edges opposite the handle stay fixed.
+const fitAspect = (rect: Rect, initial: Rect, handle: string): Rect => {
+  const ratio = initial.width / initial.height;
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  let { width, height } = rect;
+  if (horizontal && vertical) {
+    if (width / initial.width >= height / initial.height) height = width / ratio;
+    else width = height * ratio;
+  } else if (horizontal) {
+    height = width / ratio;
+  } else {
+    width = height * ratio;
+  }
+  return {
+    x: handle.includes('w') ? rect.x + rect.width - width : rect.x,
+    y: handle.includes('n') ? rect.y + rect.height - height : rect.y,
+    width,
+    height,
+  };
+};
+
+// Column and row tracks of a grid container, drawn in the container's own coordinates
+const GridTrackLines: React.FC<{ element: LayoutElement; rect: Rect; viewport: Viewport }> = ({ element, rect, viewport }) => {
+    // `rect` may be a live drag rect, so resolve against it rather than the committed runtime
+    const content = getContentRect(element, rect, viewport);
+    const grid = resolveGrid({ ...element, _runtime: { ...rect, parentId: null } }, content, viewport);
+    return (
+        <div className="absolute inset-0 pointer-events-none z-10">
+            {grid.columns.map((t, i) => (
+                <div
+                    key={`c${i}`}
+                    className="absolute border-x border-dashed border-fuchsia-400/60"
+                    style={{ left: t.start - rect.x, top: content.y - rect.y, width: t.size, height: content.height }}
+                />
+            ))}
+            {grid.rows.map((t, i) => (
+                <div
+                    key={`r${i}`}
+                    className="absolute border-y border-dashed border-fuchsia-400/60"
+                    style={{ left: content.x - rect.x, top: t.start - rect.y, width: content.width, height: t.size }}
+                />
+            ))}
+        </div>
+    );
+};
+
+// A preview box whose rendered rect differs from the engine's, both in canvas coordinates
+interface RectMismatch {
+  id: string;
+  name: string;
+  expected: Rect;
+  actual: Rect;
+}
+
+// Sub-pixel differences are rounding, not layout
+const RECT_TOLERANCE = 0.5;
+
+// Hidden boxes (`hiddenIds`) cannot be seen, so they are not compared
+const findRectMismatches = (root: HTMLElement, elements: LayoutElement[], viewport: Viewport, hiddenIds: Set<string>): RectMismatch[] => {
+    const origin = root.getBoundingClientRect();
+    // Measured through the canvas zoom; the ratio also holds mid-transition
+    const ratio = origin.width / viewport.width || 1;
+    const result: RectMismatch[] = [];
+    root.querySelectorAll<HTMLElement>('[data-preview-id]').forEach((node) => {
+        const el = elements.find((e) => e.id === node.dataset.previewId);
+        if (!el?._runtime || hiddenIds.has(el.id)) return;
+        const box = node.getBoundingClientRect();
+        const actual = {
+            x: (box.left - origin.left) / ratio,
+            y: (box.top - origin.top) / ratio,
+            width: box.width / ratio,
+            height: box.height / ratio,
+        };
+        const { x, y, width, height } = el._runtime;
+        const expected = { x, y, width, height };
+        const differs = (['x', 'y', 'width', 'height'] as const).some((k) => Math.abs(actual[k] - expected[k]) > RECT_TOLERANCE);
+        if (differs) result.push({ id: el.id, name: el.name, expected, actual });
+    });
+    return result;
+};
+
+const formatRect = (r: Rect) => `${Math.round(r.x)},${Math.round(r.y)} ${Math.round(r.width)}×${Math.round(r.height)}`;
+
 // --- PREVIEW MODE RENDERER ---
-const CSSPreviewNode: React.FC<{ element: LayoutElement; allElements: LayoutElement[] }> = ({ element, allElements }) => {
-    // Find children
-    const children = allElements.filter(e => e._runtime?.parentId === element.id);
-    // Sort children by z-index
-    children.sort((a,b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0));
-
-    // Resolve CSS values
-    const getCssValue = (val: LayoutValue, axis: 'w' | 'h') => {
-        if (val.unit === UnitType.PX) return `${val.value}px`;
-        if (val.unit === UnitType.PERCENT_PARENT_W) return `${val.value}%`;
-        if (val.unit === UnitType.PERCENT_PARENT_H) return `${val.value}%`;
-        if (val.unit === UnitType.VW) return `${val.value}vw`;
-        if (val.unit === UnitType.VH) return `${val.value}vh`;
-        return '0px';
-    };
+const CSSPreviewNode: React.FC<{ element: LayoutElement; allElements: LayoutElement[]; viewport: Viewport }> = ({ element, allElements, viewport }) => {
+    const children = getCssChildren(element, allElements);
+    const parent = allElements.find(e => e.id === element._runtime?.parentId);
 
-    // Calculate Anchor Styles
+    // Preview decoration first, so stack/grid alignment from the layout wins
     const style: React.CSSProperties = {
-        position: 'absolute',
-        width: getCssValue(element.layout.width, 'w'),
-        height: getCssValue(element.layout.height, 'h'),
         borderRadius: element.type === 'circle' ? '50%' : '0px',
         border: '1px solid rgba(0,0,0,0.1)',
         backgroundColor: 'rgba(59, 130, 246, 0.1)',
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
-        overflow: 'hidden' // Clip children visually if needed
+        overflow: 'hidden', // Clip children visually if needed
+        containerType: 'size', // Children resolve cqw/cqh against this box
+        ...(getLayoutStyle(element, parent, { viewport }) as React.CSSProperties),
     };
 
-    // Anchoring Logic (CSS)
-    const { x, y, anchorX, anchorY } = element.layout;
-    
-    // X Axis
-    if (anchorX === 'left') {
-        style.left = getCssValue(x, 'w');
-    } else if (anchorX === 'right') {
-        style.right = getCssValue(x, 'w');
-    } else if (anchorX === 'center') {
-        style.left = '50%';
-        style.transform = `translateX(calc(-50% + ${getCssValue(x, 'w')}))`;
-    }
-
-    // Y Axis
-    if (anchorY === 'top') {
-        style.top = getCssValue(y, 'h');
-    } else if (anchorY === 'bottom') {
-        style.bottom = getCssValue(y, 'h');
-    } else if (anchorY === 'center') {
-        style.top = '50%';
-        const xTrans = style.transform ? style.transform : '';
-        style.transform = `${xTrans} translateY(calc(-50% + ${getCssValue(y, 'h')}))`;
-    }
-
     return (
-        <div style={style} title={element.name} className="box-border">
+        <div style={style} title={element.name} className="box-border" data-preview-id={element.id}>
             <span className="text-[10px] text-blue-500 opacity-50 absolute top-0 left-1 pointer-events-none">{element.name}</span>
             {children.map(child => (
-                <CSSPreviewNode key={child.id} element={child} allElements={allElements} />
+                <CSSPreviewNode key={child.id} element={child} allElements={allElements} viewport={viewport} />
             ))}
         </div>
     );
@@ -223,198 +322,283 @@ export const Canvas: React.FC<CanvasProps> = ({
   elements,
   viewport,
   scale,
-  selectedId,
+  selectedIds,
   onSelect,
   onUpdateElements,
-  mode
+  snap,
+  mode,
+  checkRects,
+  onContextMenu
 }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
   
   // Local state for smooth dragging (only commits to main state on mouseUp)
   const [dragState, setDragState] = useState<DragState | null>(null);
-  // We keep a temporary "Visual" override for the dragged element
-  const [tempRect, setTempRect] = useState<{ id: string; x: number; y: number; w: number; h: number } | null>(null);
+  // We keep temporary "Visual" overrides for the dragged elements, keyed by id
+  const [tempRects, setTempRects] = useState<Record<string, Rect> | null>(null);
+  // Guides matched by the current gesture
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  // Rubber-band selection in canvas coordinates
+  const [marquee, setMarquee] = useState<{ originX: number; originY: number; x: number; y: number; baseIds: string[] } | null>(null);
+  // Preview boxes that disagree with the editor, while checkRects is on
+  const [mismatches, setMismatches] = useState<RectMismatch[] | null>(null);
+  // Bumped when the canvas finishes resizing, so the check re-measures the settled boxes
+  const [settledAt, setSettledAt] = useState(0);
+  // Plain click on a member of a multi-selection narrows to it, but only if no drag happened
+  const clickSelectRef = useRef<string | null>(null);
+  // A gesture released over the workspace still produces a click there; it must not clear the selection
+  const suppressClickRef = useRef(false);
+  // Shift released the aspect-ratio lock during this resize; the new proportions are kept on drop
+  const ratioFreedRef = useRef(false);
 
   // EDITOR MODE: Use _runtime positions directly. Do not recalculate on render.
   // We trust App.tsx to have set _runtime correctly on load/change.
   const displayElements = elements; 
+  const hiddenIds = useMemo(() => getHiddenIds(displayElements), [displayElements]);
+  // Resize looks elements and their parents up on every mouse move
+  const elementsById = useMemo(() => new Map(displayElements.map(el => [el.id, el])), [displayElements]);
 
-  const handleMouseDown = (e: React.MouseEvent, id: string, handle?: string) => {
-    if (mode !== 'editor') return;
-    e.stopPropagation();
-    onSelect(id);
+  const toCanvasPoint = (e: { clientX: number; clientY: number }) => {
+    const bounds = canvasRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / scale, y: (e.clientY - bounds.top) / scale };
+  };
 
-    const el = displayElements.find((x) => x.id === id);
-    if (!el || !el._runtime) return;
+  // Locked members of the selection stay where they are
+  const startGesture = (e: React.MouseEvent, ids: string[], handle?: string) => {
+    const initialRects: Record<string, Rect> = {};
+    ids.forEach((id) => {
+      const el = displayElements.find((x) => x.id === id);
+      if (el && el._runtime && !el.locked) {
+        initialRects[id] = { x: el._runtime.x, y: el._runtime.y, width: el._runtime.width, height: el._runtime.height };
+      }
+    });
+    const rects = Object.values(initialRects);
+    if (rects.length === 0) return;
 
     setDragState({
       isDragging: !handle,
       isResizing: !!handle,
       startX: e.clientX,
       startY: e.clientY,
-      initialRect: {
-        x: el._runtime.x,
-        y: el._runtime.y,
-        width: el._runtime.width,
-        height: el._runtime.height,
-      },
+      initialRect: getBoundingRect(rects),
+      initialRects,
       handle,
     });
-    setTempRect({
-      id,
-      x: el._runtime.x,
-      y: el._runtime.y,
-      w: el._runtime.width,
-      h: el._runtime.height,
-    });
+    setTempRects(initialRects);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent, id: string) => {
+    // Other buttons fall through to the canvas, which ignores them too. So does a locked
+    // element: a press on it starts a marquee, as on empty canvas.
+    if (mode !== 'editor' || e.button !== 0 || displayElements.find((x) => x.id === id)?.locked) return;
+    e.stopPropagation();
+    suppressClickRef.current = false;
+
+    let nextSelection: string[];
+    if (e.shiftKey) {
+      nextSelection = selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id];
+    } else if (selectedIds.includes(id)) {
+      // Keep the multi-selection so it can be dragged as a group
+      nextSelection = selectedIds;
+      clickSelectRef.current = selectedIds.length > 1 ? id : null;
+    } else {
+      nextSelection = [id];
+    }
+    onSelect(nextSelection);
+    if (nextSelection.includes(id)) startGesture(e, nextSelection);
+  };
+
+  // Resize handles always act on the whole selection
+  const handleResizeMouseDown = (e: React.MouseEvent, handle: string) => {
+    if (mode !== 'editor') return;
+    e.stopPropagation();
+    startGesture(e, selectedIds, handle);
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    suppressClickRef.current = false;
+    if (mode !== 'editor' || e.button !== 0) return;
+    const p = toCanvasPoint(e);
+    setMarquee({ originX: p.x, originY: p.y, x: p.x, y: p.y, baseIds: e.shiftKey ? selectedIds : [] });
   };
 
   // Global mouse move/up handler
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
-      if (!dragState || !tempRect) return;
+      if (!dragState || !tempRects) return;
+      clickSelectRef.current = null;
 
       // ADJUST DELTA BY SCALE
       const deltaX = (e.clientX - dragState.startX) / scale;
       const deltaY = (e.clientY - dragState.startY) / scale;
+      const { initialRect, initialRects } = dragState;
+
+      // Holding Alt bypasses snapping for this gesture
+      const snapping = snap.enabled && !e.altKey;
+      const threshold = SNAP_THRESHOLD / scale;
+      const movingIds = Object.keys(initialRects);
+      let nextGuides: SnapGuide[] = [];
 
+      const next: Record<string, Rect> = {};
       if (dragState.isDragging) {
-        setTempRect({
-          ...tempRect,
-          x: dragState.initialRect.x + deltaX,
-          y: dragState.initialRect.y + deltaY,
+        let dx = deltaX;
+        let dy = deltaY;
+        if (snapping) {
+          const moved = { ...initialRect, x: initialRect.x + deltaX, y: initialRect.y + deltaY };
+          const targets = collectSnapTargets(moved, elements, movingIds, viewport);
+          const result = snapMove(moved, targets, threshold, snap.gridSize);
+          dx = result.rect.x - initialRect.x;
+          dy = result.rect.y - initialRect.y;
+          nextGuides = result.guides;
+        }
+        Object.keys(initialRects).forEach((id) => {
+          const r = initialRects[id];
+          next[id] = { ...r, x: r.x + dx, y: r.y + dy };
         });
       } else if (dragState.isResizing && dragState.handle) {
-        let newX = dragState.initialRect.x;
-        let newY = dragState.initialRect.y;
-        let newW = dragState.initialRect.width;
-        let newH = dragState.initialRect.height;
+        // Resize the group bounding box, then scale every member into it
+        let newX = initialRect.x;
+        let newY = initialRect.y;
+        let newW = initialRect.width;
+        let newH = initialRect.height;
 
         const h = dragState.handle;
-        if (h.includes('e')) newW = Math.max(10, dragState.initialRect.width + deltaX);
+        if (h.includes('e')) newW = Math.max(MIN_SIZE, initialRect.width + deltaX);
         if (h.includes('w')) {
-            const wChange = Math.min(dragState.initialRect.width - 10, deltaX);
+            const wChange = Math.min(initialRect.width - MIN_SIZE, deltaX);
             newX += wChange;
             newW -= wChange;
         }
-        if (h.includes('s')) newH = Math.max(10, dragState.initialRect.height + deltaY);
+        if (h.includes('s')) newH = Math.max(MIN_SIZE, initialRect.height + deltaY);
         if (h.includes('n')) {
-            const hChange = Math.min(dragState.initialRect.height - 10, deltaY);
+            const hChange = Math.min(initialRect.height - MIN_SIZE, deltaY);
             newY += hChange;
             newH -= hChange;
         }
 
-        setTempRect({ id: tempRect.id, x: newX, y: newY, w: newW, h: newH });
+        if (snapping) {
+          const resized = { x: newX, y: newY, width: newW, height: newH };
+          const targets = collectSnapTargets(resized, elements, movingIds, viewport);
+          const result = snapResize(resized, h, targets, threshold, snap.gridSize, MIN_SIZE);
+          ({ x: newX, y: newY, width: newW, height: newH } = result.rect);
+          nextGuides = result.guides;
+        }
+
+        // A selection with an aspect ratio resizes proportionally; Shift toggles that for the gesture
+        const ratioLocked = movingIds.some((id) => elementsById.get(id)?.layout.aspectRatio);
+        ratioFreedRef.current = ratioLocked && e.shiftKey;
+        if (ratioLocked !== e.shiftKey && initialRect.width > 0 && initialRect.height > 0) {
+          ({ x: newX, y: newY, width: newW, height: newH } = fitAspect({ x: newX, y: newY, width: newW, height: newH }, initialRect, h));
+        }
+
+        const sx = initialRect.width === 0 ? 1 : newW / initialRect.width;
+        const sy = initialRect.height === 0 ? 1 : newH / initialRect.height;
+        Object.keys(initialRects).forEach((id) => {
+          const r = initialRects[id];
+          const scaled = {
+            x: newX + (r.x - initialRect.x) * sx,
+            y: newY + (r.y - initialRect.y) * sy,
+            width: r.width * sx,
+            height: r.height * sy,
+          };
+
+          // Honor min/max constraints live; the edge opposite the handle stays fixed
+          const el = elementsById.get(id);
+          if (el) {
+            const parentRect = getParentRect(el._runtime?.parentId, elementsById, viewport);
+            let width = clampSize(scaled.width, el.layout, 'width', viewport, parentRect);
+            let height = clampSize(scaled.height, el.layout, 'height', viewport, parentRect);
+            // Clamping one side must not break a locked ratio
+            const derived = ratioFreedRef.current ? null : getDerivedDimension(el.layout);
+            if (derived === 'height') height = clampSize(width / el.layout.aspectRatio!, el.layout, 'height', viewport, parentRect);
+            if (derived === 'width') width = clampSize(height * el.layout.aspectRatio!, el.layout, 'width', viewport, parentRect);
+            if (h.includes('w')) scaled.x += scaled.width - width;
+            if (h.includes('n')) scaled.y += scaled.height - height;
+            scaled.width = width;
+            scaled.height = height;
+          }
+          next[id] = scaled;
+        });
       }
+      setGuides(nextGuides);
+      setTempRects(next);
     };
 
     const handleMouseUp = () => {
-      if (dragState && tempRect) {
-        const el = elements.find((x) => x.id === tempRect.id);
-        
-        if (el) {
-          // 1. Calculate the FINAL ABSOLUTE position where the user dropped it
-          const finalAbsX = tempRect.x;
-          const finalAbsY = tempRect.y;
-          const finalAbsW = tempRect.w;
-          const finalAbsH = tempRect.h;
-          
-          const cx = finalAbsX + finalAbsW / 2;
-          const cy = finalAbsY + finalAbsH / 2;
-
-          // 2. Identify the logical Parent based on purely visual overlap
-          //    Logic must match layoutUtils Pass 2
-          const potentialParents = displayElements.filter((p) => {
-            if (p.id === el.id) return false;
-            // Filter only parents with valid runtime rects
-            if (!p._runtime) return false;
-            
-            // Explicit Container Flag Check
-            if (p.layout.isContainer === false) return false;
-
-            const pRect = p._runtime;
-            return (
-                cx >= pRect.x &&
-                cx <= pRect.x + pRect.width &&
-                cy >= pRect.y &&
-                cy <= pRect.y + pRect.height
-            );
-          });
-
-          // Sort by Z-Index descending (highest wins) then Size (smallest area wins)
-          potentialParents.sort((a, b) => {
-             const zDiff = (b.layout.zIndex || 0) - (a.layout.zIndex || 0);
-             if (zDiff !== 0) return zDiff;
-             const aArea = (a._runtime?.width || 0) * (a._runtime?.height || 0);
-             const bArea = (b._runtime?.width || 0) * (b._runtime?.height || 0);
-             return aArea - bArea;
+      // A plain click (no movement) is a selection, not a document change
+      const movedIds = dragState && tempRects
+        ? Object.keys(tempRects).filter((id) => {
+            const a = tempRects[id];
+            const b = dragState.initialRects[id];
+            return a.x !== b.x || a.y !== b.y || a.width !== b.width || a.height !== b.height;
+          })
+        : [];
+
+      if (dragState && tempRects && movedIds.length > 0) {
+        // Everyone sees the dropped geometry, so a child dragged along with its parent
+        // is matched against the parent's new rect.
+        let working = elements.map((e) =>
+          tempRects[e.id] ? { ...e, _runtime: { ...tempRects[e.id], parentId: e._runtime?.parentId ?? null } } : e
+        );
+
+        // A Shift-resize of ratio-locked elements re-locks them at their new proportions
+        if (dragState.isResizing && ratioFreedRef.current) {
+          working = working.map((e) => {
+            const r = tempRects[e.id];
+            if (!r || !e.layout.aspectRatio || r.height === 0) return e;
+            return { ...e, layout: { ...e.layout, aspectRatio: parseFloat((r.width / r.height).toFixed(4)) } };
           });
+        }
 
-          const newParent = potentialParents[0];
-          const newParentId = newParent ? newParent.id : null;
+        // Place lowest z first so z-index bumps of parents are visible to their children
+        const ids = Object.keys(tempRects)
+          .map((id) => working.find((e) => e.id === id)!)
+          .filter(Boolean)
+          .sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0))
+          .map((e) => e.id);
+
+        ids.forEach((id) => {
+          const el = working.find((e) => e.id === id)!;
+          const placed = placeElementAtRect(el, tempRects[id], working, viewport);
+          working = working.map((e) => (e.id === id ? placed : e));
+        });
 
-          // 3. AUTO-CORRECT Z-INDEX
-          // If we decided it's a parent, but current Z is lower, bump it.
-          let newZIndex = el.layout.zIndex;
-          if (newParent && (el.layout.zIndex <= newParent.layout.zIndex)) {
-              newZIndex = newParent.layout.zIndex + 1;
+        // An item dropped into a stack takes the slot under the pointer (document order is stack order)
+        let touchesAutoLayout = false;
+        ids.forEach((id) => {
+          const el = working.find((e) => e.id === id)!;
+          const oldParent = elements.find((e) => e.id === elements.find((x) => x.id === id)?._runtime?.parentId);
+          const newParent = working.find((e) => e.id === el._runtime!.parentId);
+          if (isAutoLayout(el.layout) || (oldParent && isAutoLayout(oldParent.layout)) || (newParent && isAutoLayout(newParent.layout))) {
+            touchesAutoLayout = true;
           }
-
-          // 4. Get Parent Geometry (for layout config calculation)
-          const parentRect = getParentRect(newParentId, displayElements, viewport);
-          
-          const newLayout = { ...el.layout, zIndex: newZIndex };
-
-          // 5. Back-Calculate offsets for CONFIG ONLY
-          const xOffset = convertAbsoluteToOffset(
-              finalAbsX, 
-              newLayout.anchorX || 'left', 
-              'x', 
-              finalAbsW, 
-              newLayout.x.unit, 
-              viewport, 
-              parentRect
-          );
-          
-          const yOffset = convertAbsoluteToOffset(
-              finalAbsY, 
-              newLayout.anchorY || 'top', 
-              'y', 
-              finalAbsH, 
-              newLayout.y.unit, 
-              viewport, 
-              parentRect
-          );
-
-          newLayout.x.value = xOffset;
-          newLayout.y.value = yOffset;
-          newLayout.width.value = fromPixels(finalAbsW, newLayout.width.unit, viewport, parentRect);
-          newLayout.height.value = fromPixels(finalAbsH, newLayout.height.unit, viewport, parentRect);
-
-          // 6. Update State
-          // CRITICAL: We explicitly write the `_runtime` values here to match the drag result exactly.
-          const newElements = elements.map(e => {
-            if (e.id === el.id) {
-               return { 
-                   ...e, 
-                   layout: newLayout,
-                   _runtime: {
-                       x: finalAbsX,
-                       y: finalAbsY,
-                       width: finalAbsW,
-                       height: finalAbsH,
-                       parentId: newParentId
-                   }
-               };
-            }
-            return e;
-          });
-          
-          onUpdateElements(newElements);
-        }
+          const stack = newParent ? getStackConfig(newParent.layout) : null;
+          if (!stack || dragState.isResizing) return;
+
+          const siblings = working.filter((e) => e._runtime?.parentId === newParent!.id && !tempRects[e.id]);
+          if (siblings.length === 0) return;
+          const index = getStackInsertIndex(siblings.map((sib) => sib._runtime!), tempRects[id], stack.direction, !!stack.wrap);
+          const rest = working.filter((e) => e.id !== id);
+          const at = index < siblings.length ? rest.indexOf(siblings[index]) : rest.indexOf(siblings[siblings.length - 1]) + 1;
+          rest.splice(at, 0, el);
+          working = rest;
+        });
+        // Stacks and grids reflow their items, so the dropped geometry is only a hint there
+        if (touchesAutoLayout) working = calculateRuntimePositions(working, viewport);
+
+        const verb = dragState.isResizing ? 'Resize' : 'Move';
+        const label = ids.length === 1 ? `${verb} ${working.find((e) => e.id === ids[0])!.name}` : `${verb} ${ids.length} elements`;
+        onUpdateElements(working, label);
+        suppressClickRef.current = true;
+      } else if (clickSelectRef.current) {
+        onSelect([clickSelectRef.current]);
       }
+      clickSelectRef.current = null;
+      ratioFreedRef.current = false;
       setDragState(null);
-      setTempRect(null);
+      setTempRects(null);
+      setGuides([]);
     };
 
     if (dragState) {
@@ -425,13 +609,86 @@ export const Canvas: React.FC<CanvasProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [dragState, tempRect, elements, displayElements, viewport, onUpdateElements, scale, mode]);
+  }, [dragState, tempRects, elements, displayElements, elementsById, viewport, onUpdateElements, onSelect, scale, snap, mode]);
+
+  // Marquee move/up handler
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const p = toCanvasPoint(e);
+      const next = { ...marquee, x: p.x, y: p.y };
+      setMarquee(next);
+
+      const box = {
+        x: Math.min(next.originX, next.x),
+        y: Math.min(next.originY, next.y),
+        width: Math.abs(next.x - next.originX),
+        height: Math.abs(next.y - next.originY),
+      };
+      const hits = displayElements
+        .filter((el) => el._runtime && !el.locked && !hiddenIds.has(el.id) && rectsIntersect(box, el._runtime))
+        .map((el) => el.id);
+      onSelect([...next.baseIds, ...hits.filter((id) => !next.baseIds.includes(id))]);
+    };
+
+    const handleMouseUp = () => {
+      // A click on empty canvas clears the selection
+      const isClick = Math.abs(marquee.x - marquee.originX) < 3 && Math.abs(marquee.y - marquee.originY) < 3;
+      if (isClick) onSelect(marquee.baseIds);
+      else suppressClickRef.current = true;
+      setMarquee(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [marquee, displayElements, hiddenIds, onSelect, scale]);
+
+  useLayoutEffect(() => {
+    if (mode !== 'preview' || !checkRects || !previewRef.current) {
+      setMismatches(null);
+      return;
+    }
+    setMismatches(findRectMismatches(previewRef.current, displayElements, viewport, hiddenIds));
+  }, [mode, checkRects, displayElements, hiddenIds, viewport, scale, settledAt]);
+
+  const getDisplayRect = (el: LayoutElement): Rect | null => {
+    if (tempRects && tempRects[el.id]) return tempRects[el.id];
+    return el._runtime ? { x: el._runtime.x, y: el._runtime.y, width: el._runtime.width, height: el._runtime.height } : null;
+  };
+
+  const isSingleSelection = selectedIds.length === 1;
+  const selectionRects = selectedIds
+    .map((id) => displayElements.find((el) => el.id === id))
+    .map((el) => (el ? getDisplayRect(el) : null))
+    .filter((r): r is Rect => !!r);
+  const groupRect = selectedIds.length > 1 && selectionRects.length > 0 ? getBoundingRect(selectionRects) : null;
 
   return (
     <div 
         className="flex-1 bg-gray-950 overflow-auto flex relative p-12 custom-scrollbar"
-        onClick={() => onSelect(null)}
+        onClick={() => {
+            if (suppressClickRef.current) {
+                suppressClickRef.current = false;
+                return;
+            }
+            onSelect([]);
+        }}
     >
+      {mode === 'preview' && mismatches && (
+        <div className={clsx(
+            "absolute top-3 left-3 z-50 text-xs px-2 py-1 rounded border pointer-events-none",
+            mismatches.length > 0 ? "bg-red-500/20 border-red-500/50 text-red-300" : "bg-emerald-500/20 border-emerald-500/50 text-emerald-300"
+        )}>
+            {mismatches.length > 0
+                ? `${mismatches.length} ${mismatches.length === 1 ? 'box differs' : 'boxes differ'} from the editor`
+                : 'Preview matches the editor'}
+        </div>
+      )}
       <div
         ref={canvasRef}
         className="bg-white relative shadow-2xl transition-all duration-150 ease-out origin-top-left shrink-0 m-auto" 
@@ -439,19 +696,22 @@ export const Canvas: React.FC<CanvasProps> = ({
           width: viewport.width,
           height: viewport.height,
           backgroundImage: 'radial-gradient(#e5e7eb 1px, transparent 1px)',
-          backgroundSize: '20px 20px',
+          backgroundSize: snap.enabled && snap.gridSize > 0 ? `${snap.gridSize}px ${snap.gridSize}px` : '20px 20px',
           transform: `scale(${scale})`,
         }}
+        onMouseDown={handleCanvasMouseDown}
         onClick={(e) => e.stopPropagation()}
+        onContextMenu={(e) => mode === 'editor' && onContextMenu?.(e, null)}
+        onTransitionEnd={(e) => e.target === e.currentTarget && setSettledAt(Date.now())}
       >
         {mode === 'editor' && displayElements.map((el) => {
           // Use temporary rect if dragging this specific element
-          const isInteracting = tempRect?.id === el.id;
-          const rect = isInteracting ? tempRect : el._runtime;
+          const rect = getDisplayRect(el);
           
-          if (!rect) return null;
+          if (!rect || hiddenIds.has(el.id)) return null;
 
-          const isSelected = selectedId === el.id;
+          const isSelected = selectedIds.includes(el.id);
+          const showDecorators = isSelected && isSingleSelection;
           
           // For overlays, we need to know the parent. 
           const committedParentId = el._runtime?.parentId;
@@ -460,6 +720,8 @@ export const Canvas: React.FC<CanvasProps> = ({
           const parentRect = parentEl && parentEl._runtime ? 
             { x: parentEl._runtime.x, y: parentEl._runtime.y, w: parentEl._runtime.width, h: parentEl._runtime.height, name: parentEl.name } : 
             { x: 0, y: 0, w: viewport.width, h: viewport.height, name: 'Canvas' };
+          // Stack and grid items have no offsets of their own to show
+          const inAutoLayout = !!(parentEl && isAutoLayout(parentEl.layout));
 
           return (
             <div
@@ -467,30 +729,36 @@ export const Canvas: React.FC<CanvasProps> = ({
               className={clsx(
                 "absolute box-border select-none group",
                 isSelected ? "z-50" : "z-10",
-                "cursor-move"
+                el.locked ? "cursor-default" : "cursor-move"
               )}
               style={{
                 left: rect.x,
                 top: rect.y,
-                width: rect.w || rect.width,
-                height: rect.h || rect.height,
+                width: rect.width,
+                height: rect.height,
               }}
               onMouseDown={(e) => handleMouseDown(e, el.id)}
               onClick={(e) => e.stopPropagation()}
+              onContextMenu={(e) => {
+                  e.stopPropagation();
+                  onContextMenu?.(e, el.id);
+              }}
             >
-              {isSelected && !dragState?.isDragging && (
+              {showDecorators && !inAutoLayout && !dragState?.isDragging && (
                   <MeasurementOverlay 
-                    targetRect={rect} 
+                    targetRect={{ x: rect.x, y: rect.y, w: rect.width, h: rect.height }} 
                     parentRect={parentRect} 
                     layout={el.layout} 
                   />
               )}
 
+              {getGridConfig(el.layout) && <GridTrackLines element={el} rect={rect} viewport={viewport} />}
+
               {/* Element Visual */}
               <div 
                 className={clsx(
                     "w-full h-full border-2 transition-colors overflow-hidden flex items-center justify-center text-xs text-black/50 font-mono relative",
-                    isSelected ? "border-blue-500 bg-blue-500/10" : "border-gray-400 bg-gray-100 hover:border-blue-300",
+                    isSelected ? "border-blue-500 bg-blue-500/10" : clsx("border-gray-400 bg-gray-100", !el.locked && "hover:border-blue-300"),
                     el.type === 'circle' ? 'rounded-full' : 'rounded-sm'
                 )}
               >
@@ -498,45 +766,90 @@ export const Canvas: React.FC<CanvasProps> = ({
               </div>
 
               {/* Selection Decorators */}
-              {isSelected && (
+              {showDecorators && (
                 <>
-                  <UnitBadge label={el.layout.anchorX === 'right' ? "Right" : el.layout.anchorX === 'center' ? "Center X" : "Left"} value={el.layout.x} className={clsx("-top-8", el.layout.anchorX === 'right' ? "right-0" : el.layout.anchorX === 'center' ? "left-1/2 -translate-x-1/2" : "left-0")} />
-                  <UnitBadge label={el.layout.anchorY === 'bottom' ? "Bottom" : el.layout.anchorY === 'center' ? "Center Y" : "Top"} value={el.layout.y} className={clsx("-left-24", el.layout.anchorY === 'bottom' ? "bottom-0" : el.layout.anchorY === 'center' ? "top-1/2 -translate-y-1/2" : "top-0")} />
-                  <UnitBadge label="w" value={el.layout.width} className="-bottom-8 left-1/2 -translate-x-1/2" />
-                  <UnitBadge label="h" value={el.layout.height} className="top-1/2 -right-24 -translate-y-1/2" />
-
-                  {RESIZE_HANDLES.map((h) => (
-                    <div
-                      key={h}
-                      onMouseDown={(e) => handleMouseDown(e, el.id, h)}
-                      className={clsx(
-                        "absolute w-3 h-3 bg-white border border-blue-500 rounded-full z-50",
-                        h === 'nw' && "-top-1.5 -left-1.5 cursor-nw-resize",
-                        h === 'n' && "-top-1.5 left-1/2 -translate-x-1/2 cursor-n-resize",
-                        h === 'ne' && "-top-1.5 -right-1.5 cursor-ne-resize",
-                        h === 'e' && "top-1/2 -right-1.5 -translate-y-1/2 cursor-e-resize",
-                        h === 'se' && "-bottom-1.5 -right-1.5 cursor-se-resize",
-                        h === 's' && "bottom-1.5 left-1/2 -translate-x-1/2 -translate-y-0 cursor-s-resize",
-                        h === 'sw' && "-bottom-1.5 -left-1.5 cursor-sw-resize",
-                        h === 'w' && "top-1/2 -left-1.5 -translate-y-1/2 cursor-w-resize"
-                      )}
-                    />
-                  ))}
+                  {!inAutoLayout && (
+                    <>
+                      <UnitBadge label={el.layout.anchorX === 'right' ? "Right" : el.layout.anchorX === 'center' ? "Center X" : "Left"} value={el.layout.x} className={clsx("-top-8", el.layout.anchorX === 'right' ? "right-0" : el.layout.anchorX === 'center' ? "left-1/2 -translate-x-1/2" : "left-0")} />
+                      <UnitBadge label={el.layout.anchorY === 'bottom' ? "Bottom" : el.layout.anchorY === 'center' ? "Center Y" : "Top"} value={el.layout.y} className={clsx("-left-24", el.layout.anchorY === 'bottom' ? "bottom-0" : el.layout.anchorY === 'center' ? "top-1/2 -translate-y-1/2" : "top-0")} />
+                      {el.layout.anchorX === 'stretch' && <UnitBadge label="Right" value={el.layout.xEnd || { value: 0, unit: UnitType.PX }} className="-top-8 right-0" />}
+                      {el.layout.anchorY === 'stretch' && <UnitBadge label="Bottom" value={el.layout.yEnd || { value: 0, unit: UnitType.PX }} className="-left-24 bottom-0" />}
+                    </>
+                  )}
+                  {el.layout.anchorX !== 'stretch' && el.layout.width && <UnitBadge label="w" value={el.layout.width} className="-bottom-8 left-1/2 -translate-x-1/2" />}
+                  {el.layout.anchorY !== 'stretch' && el.layout.height && <UnitBadge label="h" value={el.layout.height} className="top-1/2 -right-24 -translate-y-1/2" />}
+
+                  {!el.locked && <ResizeHandles onHandleMouseDown={handleResizeMouseDown} />}
                 </>
               )}
             </div>
           );
         })}
 
+        {/* Group Selection Box */}
+        {mode === 'editor' && groupRect && (
+            <div
+                className="absolute border border-dashed border-blue-500 z-[55] pointer-events-none"
+                style={{ left: groupRect.x, top: groupRect.y, width: groupRect.width, height: groupRect.height }}
+            >
+                <div className="absolute -top-6 left-0 bg-blue-600 text-white text-[10px] px-1.5 py-0.5 rounded shadow-sm whitespace-nowrap">
+                    {selectedIds.length} selected
+                </div>
+                <ResizeHandles onHandleMouseDown={handleResizeMouseDown} />
+            </div>
+        )}
+
+        {/* Smart Guides */}
+        {mode === 'editor' && guides.map((g, i) => (
+            <div
+                key={i}
+                className="absolute bg-pink-500 z-[65] pointer-events-none"
+                style={g.axis === 'x'
+                    ? { left: g.position, top: g.from, width: 1 / scale, height: g.to - g.from }
+                    : { left: g.from, top: g.position, width: g.to - g.from, height: 1 / scale }}
+            />
+        ))}
+
+        {/* Marquee */}
+        {marquee && (
+            <div
+                className="absolute border border-blue-500 bg-blue-500/10 z-[70] pointer-events-none"
+                style={{
+                    left: Math.min(marquee.originX, marquee.x),
+                    top: Math.min(marquee.originY, marquee.y),
+                    width: Math.abs(marquee.x - marquee.originX),
+                    height: Math.abs(marquee.y - marquee.originY),
+                }}
+            />
+        )}
+
         {/* PREVIEW MODE - NESTED CSS RENDERING */}
         {mode === 'preview' && (
-            <div className="w-full h-full relative">
+            <div ref={previewRef} className="w-full h-full relative" style={{ containerType: 'size' }}>
                 {displayElements.filter(el => !el._runtime?.parentId || el._runtime.parentId === 'root').map(el => (
-                    <CSSPreviewNode key={el.id} element={el} allElements={displayElements} />
+                    <CSSPreviewNode key={el.id} element={el} allElements={displayElements} viewport={viewport} />
                 ))}
             </div>
         )}
+
+        {/* RECT CHECK - editor rect dashed, browser rect solid */}
+        {mode === 'preview' && mismatches && mismatches.map(m => (
+            <React.Fragment key={m.id}>
+                <div
+                    className="absolute border border-red-500 bg-red-500/10 pointer-events-none z-40"
+                    style={{ left: m.actual.x, top: m.actual.y, width: m.actual.width, height: m.actual.height }}
+                />
+                <div
+                    className="absolute border-2 border-dashed border-red-500 pointer-events-none z-40"
+                    style={{ left: m.expected.x, top: m.expected.y, width: m.expected.width, height: m.expected.height }}
+                >
+                    <div className="absolute -top-5 left-0 bg-red-600 text-white text-[10px] px-1.5 py-0.5 rounded shadow-sm whitespace-nowrap font-mono">
+                        {m.name}: editor {formatRect(m.expected)} · preview {formatRect(m.actual)}
+                    </div>
+                </div>
+            </React.Fragment>
+        ))}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
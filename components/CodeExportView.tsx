@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import { DslDiagnostic } from '../utils/dslValidator';
+import { DiagnosticList } from './DiagnosticList';
+
+interface CodeExportViewProps {
+  fileName: string;
+  code: string;
+  onDownload: () => void;
+  // Parts of the document the target cannot express faithfully
+  diagnostics?: DslDiagnostic[];
+}
+
+// Read-only view of generated code, with copy and download
+export const CodeExportView: React.FC<CodeExportViewProps> = ({ fileName, code, onDownload, diagnostics }) => {
+  const [copied, setCopied] = useState(false);
+
+  // A denied clipboard (or an insecure context) just leaves the button as it is
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }).catch(() => undefined);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900 border border-gray-800 rounded-lg p-6 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between mb-4 pb-4 border-b border-gray-800">
+        <h3 className="font-mono text-sm text-blue-400">{fileName}</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Generated, read-only</span>
+          <button
+            onClick={handleCopy}
+            className="px-2 py-1 text-xs border border-gray-700 rounded flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700"
+          >
+            {copied ? <Check size={12} className="text-green-500" /> : <Copy size={12} />} Copy
+          </button>
+          <button
+            onClick={onDownload}
+            className="px-2 py-1 text-xs border border-gray-700 rounded flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700"
+          >
+            <Download size={12} /> Download
+          </button>
+        </div>
+      </div>
+      <pre className="border border-gray-800 rounded bg-gray-950 h-[60vh] overflow-auto custom-scrollbar font-mono text-sm text-gray-300 leading-relaxed p-3 whitespace-pre">
+        {code}
+      </pre>
+
+      {diagnostics && diagnostics.length > 0 && (
+        <div className="mt-4">
+          <DiagnosticList diagnostics={diagnostics} />
+        </div>
+      )}
+    </div>
+  );
+};
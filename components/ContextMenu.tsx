@@ -0,0 +1,51 @@
+import React from 'react';
+import clsx from 'clsx';
+
+export interface ContextMenuItem {
+  label: string;
+  shortcut?: string;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+}
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  // null draws a separator
+  items: (ContextMenuItem | null)[];
+  onClose: () => void;
+}
+
+export const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40"
+        onClick={onClose}
+        onContextMenu={(e) => { e.preventDefault(); onClose(); }}
+      />
+      <div
+        className="fixed z-50 min-w-[12rem] bg-gray-900 border border-gray-700 rounded shadow-2xl py-1 text-xs"
+        style={{ left: x, top: y }}
+      >
+        {items.map((item, i) => item ? (
+          <button
+            key={i}
+            disabled={item.disabled}
+            onClick={() => { onClose(); item.onClick(); }}
+            className={clsx(
+              "w-full px-3 py-1.5 text-left flex items-center gap-4 hover:bg-gray-800 disabled:opacity-40 disabled:hover:bg-transparent",
+              item.danger ? "text-red-300" : "text-gray-200"
+            )}
+          >
+            <span className="flex-1">{item.label}</span>
+            {item.shortcut && <span className="text-gray-500 font-mono text-[10px]">{item.shortcut}</span>}
+          </button>
+        ) : (
+          <div key={i} className="h-px bg-gray-800 my-1" />
+        ))}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { DslDiagnostic } from '../utils/dslValidator';
+import clsx from 'clsx';
+
+interface DiagnosticListProps {
+  diagnostics: DslDiagnostic[];
+  onSelect?: (diagnostic: DslDiagnostic) => void;
+}
+
+export const DiagnosticList: React.FC<DiagnosticListProps> = ({ diagnostics, onSelect }) => {
+  if (diagnostics.length === 0) return null;
+
+  // Errors first, then warnings, keeping document order within each group
+  const sorted = [
+    ...diagnostics.filter(d => d.severity === 'error'),
+    ...diagnostics.filter(d => d.severity === 'warning'),
+  ];
+
+  return (
+    <div className="space-y-1">
+      {sorted.map((d, i) => (
+        <button
+          key={i}
+          onClick={() => onSelect?.(d)}
+          className={clsx(
+            "w-full text-left text-xs font-mono rounded px-3 py-1.5 border flex gap-2",
+            d.severity === 'error'
+              ? "bg-red-950/40 border-red-900/50 text-red-300 hover:bg-red-950/70"
+              : "bg-amber-950/30 border-amber-900/40 text-amber-200 hover:bg-amber-950/60"
+          )}
+        >
+          <span className={clsx("uppercase font-bold text-[9px] mt-0.5", d.severity === 'error' ? "text-red-500" : "text-amber-500")}>
+            {d.severity}
+          </span>
+          {d.line !== undefined && (
+            <span className="text-red-500 shrink-0">Ln {d.line}, Col {d.column}</span>
+          )}
+          {d.path && <span className="text-blue-300 shrink-0">{d.path}</span>}
+          <span>{d.message}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,54 +1,159 @@
 import React, { useState } from 'react';
 import { LayoutElement } from '../types';
-import { Layers, GripVertical, ChevronDown } from 'lucide-react';
+import { ROOT_PARENT_ID } from '../constants';
+import { LayoutDiagnostic, getStackConfig, isAutoLayout } from '../utils/layoutUtils';
+import { getHiddenIds, orderLayers } from '../utils/editCommands';
+import { Layers, GripVertical, ChevronDown, ChevronRight, AlertTriangle, Eye, EyeOff, Lock, Unlock, Pin } from 'lucide-react';
 import clsx from 'clsx';
 
+// Where a dragged layer lands relative to the row under the pointer
+type DropPosition = 'before' | 'after' | 'inside';
+
+export type LayerFlag = 'hidden' | 'locked';
+
+interface LayerTree {
+  // Parent id (null: the canvas) -> children in layer order
+  childrenOf: Map<string | null, LayoutElement[]>;
+  parentOf: Map<string, string | null>;
+}
+
+// The runtime hierarchy. Elements whose parent cannot be reached from the canvas (a parent
+// cycle) are listed at the top level, so every layer shows up once.
+const buildLayerTree = (elements: LayoutElement[]): LayerTree => {
+  const byId = new Map(elements.map(el => [el.id, el]));
+  const grouped = new Map<string | null, LayoutElement[]>();
+  elements.forEach((el) => {
+    const parentId = el._runtime?.parentId;
+    const key = parentId && byId.has(parentId) ? parentId : null;
+    grouped.set(key, [...(grouped.get(key) || []), el]);
+  });
+
+  const reached = new Set<string>();
+  const reach = (roots: LayoutElement[]) => {
+    const queue = [...roots];
+    while (queue.length > 0) {
+      const el = queue.pop()!;
+      if (reached.has(el.id)) continue;
+      reached.add(el.id);
+      queue.push(...(grouped.get(el.id) || []));
+    }
+  };
+  reach(grouped.get(null) || []);
+  // A cycle is listed from its first member in document order
+  elements.forEach((el) => {
+    if (reached.has(el.id)) return;
+    const siblings = grouped.get(el._runtime!.parentId!)!;
+    siblings.splice(siblings.indexOf(el), 1);
+    grouped.set(null, [...(grouped.get(null) || []), el]);
+    reach([el]);
+  });
+
+  const childrenOf = new Map<string | null, LayoutElement[]>();
+  const parentOf = new Map<string, string | null>();
+  grouped.forEach((children, parentId) => {
+    if (children.length === 0) return;
+    childrenOf.set(parentId, orderLayers(children, parentId ? byId.get(parentId)! : null));
+    children.forEach(child => parentOf.set(child.id, parentId));
+  });
+  return { childrenOf, parentOf };
+};
+
 interface LayerPanelProps {
   elements: LayoutElement[];
-  selectedId: string | null;
-  onSelect: (id: string) => void;
-  onReorder: (sortedIds: string[]) => void;
+  selectedIds: string[];
+  // Layout warnings, shown on the layers they concern
+  diagnostics?: LayoutDiagnostic[];
+  onSelect: (id: string, additive: boolean) => void;
+  // Drag and drop: `siblingIds` are the new parent's children in layer order, including `id`
+  onMove: (id: string, parentId: string | null, siblingIds: string[]) => void;
+  onToggleFlag: (id: string, flag: LayerFlag) => void;
+  onContextMenu?: (e: React.MouseEvent, id: string) => void;
 }
 
 export const LayerPanel: React.FC<LayerPanelProps> = ({
   elements,
-  selectedId,
+  selectedIds,
+  diagnostics = [],
   onSelect,
-  onReorder
+  onMove,
+  onToggleFlag,
+  onContextMenu
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropHint, setDropHint] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  const warningsById = new Map<string, string[]>();
+  diagnostics.forEach((d) => {
+    warningsById.set(d.elementId, [...(warningsById.get(d.elementId) || []), d.message]);
+  });
 
-  // Sort by zIndex descending (Visually Top first)
-  // Higher zIndex = Closer to user = Top of list
-  const sortedElements = [...elements].sort((a, b) => (b.layout.zIndex || 0) - (a.layout.zIndex || 0));
+  const { childrenOf, parentOf } = buildLayerTree(elements);
+  // Hidden layers, and those inside one, are dimmed
+  const hiddenIds = getHiddenIds(elements);
+  const names = new Map(elements.map(el => [el.id, el.name]));
+
+  // Depth-first, topmost first; children of collapsed layers are left out
+  const rows: { el: LayoutElement; depth: number }[] = [];
+  const addRows = (parentId: string | null, depth: number) => {
+    (childrenOf.get(parentId) || []).forEach((el) => {
+      rows.push({ el, depth });
+      if (!collapsedIds.includes(el.id)) addRows(el.id, depth + 1);
+    });
+  };
+  addRows(null, 0);
+
+  // A layer cannot go into itself or anything nested in it
+  const isInside = (id: string, ancestorId: string) => {
+    for (let current: string | null = id; current; current = parentOf.get(current) ?? null) {
+      if (current === ancestorId) return true;
+    }
+    return false;
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
 
   const handleDragStart = (e: React.DragEvent, id: string) => {
     e.dataTransfer.setData('text/plain', id);
     e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(id);
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropHint(null);
+  };
+
+  // The middle of a container's row drops into it, its edges between layers
+  const handleDragOver = (e: React.DragEvent, target: LayoutElement) => {
+    if (!draggedId || isInside(target.id, draggedId)) {
+      setDropHint(null);
+      return;
+    }
     e.preventDefault(); // Allow drop
     e.dataTransfer.dropEffect = 'move';
+    const box = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - box.top) / box.height;
+    const position: DropPosition = target.layout.isContainer === false
+      ? (offset < 0.5 ? 'before' : 'after')
+      : (offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside');
+    if (dropHint?.id !== target.id || dropHint.position !== position) setDropHint({ id: target.id, position });
   };
 
-  const handleDrop = (e: React.DragEvent, targetId: string) => {
+  const handleDrop = (e: React.DragEvent, target: LayoutElement) => {
     e.preventDefault();
-    const draggedId = e.dataTransfer.getData('text/plain');
-    if (draggedId === targetId) return;
-
-    // Create new order
-    const fromIndex = sortedElements.findIndex(el => el.id === draggedId);
-    const toIndex = sortedElements.findIndex(el => el.id === targetId);
-    
-    if (fromIndex === -1 || toIndex === -1) return;
-
-    const newList = [...sortedElements];
-    const [movedItem] = newList.splice(fromIndex, 1);
-    newList.splice(toIndex, 0, movedItem);
-    
-    // Pass just the IDs in the new order
-    onReorder(newList.map(el => el.id));
+    const hint = dropHint;
+    handleDragEnd();
+    if (!draggedId || !hint || hint.id !== target.id) return;
+
+    const parentId = hint.position === 'inside' ? target.id : parentOf.get(target.id) ?? null;
+    const siblingIds = (childrenOf.get(parentId) || []).map(el => el.id).filter(id => id !== draggedId);
+    const index = hint.position === 'inside' ? 0 : siblingIds.indexOf(target.id) + (hint.position === 'after' ? 1 : 0);
+    siblingIds.splice(index, 0, draggedId);
+    onMove(draggedId, parentId, siblingIds);
   };
 
   if (!isExpanded) {
@@ -64,38 +169,93 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
   }
 
   return (
-    <div className="w-56 bg-gray-900 border border-gray-800 rounded-lg shadow-xl flex flex-col max-h-[300px] pointer-events-auto transition-all duration-200">
+    <div className="w-64 bg-gray-900 border border-gray-800 rounded-lg shadow-xl flex flex-col max-h-[300px] pointer-events-auto transition-all duration-200">
         <div 
             className="p-2 border-b border-gray-800 bg-gray-800/50 flex items-center gap-2 shrink-0 cursor-pointer hover:bg-gray-800/80 transition-colors"
             onClick={() => setIsExpanded(false)}
         >
             <Layers size={14} className="text-gray-400"/>
             <span className="text-xs font-bold text-gray-300">Layers</span>
+            {warningsById.size > 0 && (
+                <span className="flex items-center gap-0.5 text-[10px] text-amber-500" title={`${warningsById.size} layer${warningsById.size === 1 ? '' : 's'} with layout warnings`}>
+                    <AlertTriangle size={10} /> {warningsById.size}
+                </span>
+            )}
             <span className="text-[10px] text-gray-500 ml-auto bg-black/20 px-1.5 py-0.5 rounded-full">{elements.length}</span>
             <ChevronDown size={14} className="text-gray-500" />
         </div>
         <div className="overflow-y-auto flex-1 p-1 space-y-0.5 custom-scrollbar">
-            {sortedElements.map(el => (
+            {rows.map(({ el, depth }) => (
                 <div 
                     key={el.id}
                     draggable
                     onDragStart={(e) => handleDragStart(e, el.id)}
-                    onDragOver={handleDragOver}
-                    onDrop={(e) => handleDrop(e, el.id)}
-                    onClick={() => onSelect(el.id)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleDragOver(e, el)}
+                    onDrop={(e) => handleDrop(e, el)}
+                    onClick={(e) => onSelect(el.id, e.shiftKey || e.metaKey || e.ctrlKey)}
+                    onContextMenu={(e) => onContextMenu?.(e, el.id)}
+                    style={{ paddingLeft: 8 + depth * 12 }}
                     className={clsx(
-                        "flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer text-xs group border border-transparent select-none transition-colors",
-                        selectedId === el.id 
+                        "flex items-center gap-1.5 pr-2 py-1.5 rounded cursor-pointer text-xs group border border-transparent select-none transition-colors",
+                        selectedIds.includes(el.id) 
                             ? "bg-blue-600/20 text-blue-200 border-blue-500/30" 
-                            : "text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                            : "text-gray-400 hover:bg-gray-800 hover:text-gray-200",
+                        hiddenIds.has(el.id) && "opacity-50",
+                        dropHint?.id === el.id && dropHint.position === 'before' && "shadow-[inset_0_2px_0_0_#60a5fa]",
+                        dropHint?.id === el.id && dropHint.position === 'after' && "shadow-[inset_0_-2px_0_0_#60a5fa]",
+                        dropHint?.id === el.id && dropHint.position === 'inside' && "border-blue-400 bg-blue-500/10"
                     )}
                 >
-                    <GripVertical size={12} className={clsx("cursor-grab opacity-0 group-hover:opacity-100 text-gray-600 hover:text-gray-400", selectedId === el.id && "opacity-50")} />
+                    <GripVertical size={12} className={clsx("cursor-grab opacity-0 group-hover:opacity-100 text-gray-600 hover:text-gray-400 shrink-0", selectedIds.includes(el.id) && "opacity-50")} />
+                    {childrenOf.has(el.id) ? (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); toggleCollapsed(el.id); }}
+                            className="text-gray-500 hover:text-gray-200 shrink-0"
+                            title={collapsedIds.includes(el.id) ? 'Expand' : 'Collapse'}
+                        >
+                            {collapsedIds.includes(el.id) ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                        </button>
+                    ) : (
+                        <span className="w-3 shrink-0" />
+                    )}
                     <span className="truncate flex-1 font-medium">{el.name}</span>
+                    {/* Only absolute containers keep a dropped layer where it is */}
+                    {dropHint?.id === el.id && dropHint.position === 'inside' && isAutoLayout(el.layout) && (
+                        <span className="text-[9px] text-blue-300 shrink-0">{getStackConfig(el.layout) ? 'stack' : 'grid'} places it</span>
+                    )}
+                    {el.parent && (
+                        <span
+                            title={`Parent locked to ${el.parent === ROOT_PARENT_ID ? 'the canvas' : names.get(el.parent) ?? el.parent}: containment no longer moves it. Re-detect it in the properties.`}
+                            className="text-gray-500 shrink-0"
+                        >
+                            <Pin size={10} />
+                        </span>
+                    )}
+                    {warningsById.has(el.id) && (
+                        <span title={warningsById.get(el.id)!.join('\n')} className="text-amber-500 shrink-0">
+                            <AlertTriangle size={12} />
+                        </span>
+                    )}
                     <span className="text-[9px] opacity-40 font-mono bg-black/20 px-1 rounded">z:{el.layout.zIndex}</span>
+                    {/* Set flags stay visible, the others show on hover */}
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onToggleFlag(el.id, 'locked'); }}
+                        className={clsx("shrink-0 hover:text-gray-200", el.locked ? "text-gray-300" : "text-gray-600 opacity-0 group-hover:opacity-100")}
+                        title={el.locked ? 'Unlock' : 'Lock on the canvas'}
+                    >
+                        {el.locked ? <Lock size={12} /> : <Unlock size={12} />}
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onToggleFlag(el.id, 'hidden'); }}
+                        className={clsx("shrink-0 hover:text-gray-200", el.hidden ? "text-gray-300" : "text-gray-600 opacity-0 group-hover:opacity-100")}
+                        title={el.hidden ? 'Show' : 'Hide'}
+                    >
+                        {el.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                    </button>
                 </div>
             ))}
-            {sortedElements.length === 0 && (
+            {rows.length === 0 && (
                 <div className="p-4 text-center text-xs text-gray-600 italic">No elements</div>
             )}
         </div>
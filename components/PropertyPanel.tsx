@@ -1,21 +1,39 @@
-import React, { useMemo } from 'react';
-import { Axis, LayoutElement, LayoutValue, UnitType, Viewport, AnchorX, AnchorY } from '../types';
-import { fromPixels, getParentRect, calculateRuntimePositions, convertAbsoluteToOffset } from '../utils/layoutUtils';
+import React, { useMemo, useState } from 'react';
+import { Axis, Breakpoint, LayoutConfig, LayoutElement, LayoutValue, UnitType, Viewport, AnchorX, AnchorY, LayoutMode, StackConfig, GridConfig, GridCell, GridTrack } from '../types';
+import { fromPixels, toPixels, getParentRect, convertAbsoluteToOffset, valueFromPixels, offsetValueFromAbsolute, getDerivedDimension, getStackConfig, getGridConfig } from '../utils/layoutUtils';
+import { formatLayoutValue, parseLayoutExpression, formatGridTracks, parseGridTracks } from '../utils/layoutExpression';
+import { formatBreakpoint, getOverriddenKeys } from '../utils/breakpoints';
 import { 
     Box, Maximize2, Move, 
     AlignLeft, AlignCenter, AlignRight, 
     AlignStartVertical, AlignEndVertical,
-    Layers, LayoutTemplate, SquareDashedKanban, Crosshair, AlignVerticalJustifyCenter, Square
+    Layers, LayoutTemplate, SquareDashedKanban, Crosshair, AlignVerticalJustifyCenter, Square,
+    Lock, Unlock, RefreshCw, X, Plus, MoveHorizontal, MoveVertical, Link, Unlink,
+    ArrowRight, ArrowDown, Rows3, Grid3x3, MonitorSmartphone, RotateCcw
 } from 'lucide-react';
 import clsx from 'clsx';
 
 interface PropertyPanelProps {
-  selectedId: string | null;
+  selectedIds: string[];
   elements: LayoutElement[];
   viewport: Viewport;
+  editBreakpoint: Breakpoint | null; // Where edits go; null for the base layout
   onUpdate: (id: string, newLayout: Partial<LayoutElement['layout']>) => void;
+  onLockParent: (id: string) => void;
+  onRedetectParent: (id: string) => void;
+  onSetLayoutMode: (id: string, mode: LayoutMode) => void;
+  onResetOverrides: (id: string, keys?: (keyof LayoutConfig)[]) => void;
 }
 
+type ConstraintKey = 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight';
+
+const CONSTRAINTS: { key: ConstraintKey; label: string; axis: 'width' | 'height' }[] = [
+    { key: 'minWidth', label: 'Min Width', axis: 'width' },
+    { key: 'maxWidth', label: 'Max Width', axis: 'width' },
+    { key: 'minHeight', label: 'Min Height', axis: 'height' },
+    { key: 'maxHeight', label: 'Max Height', axis: 'height' },
+];
+
 // Helper to determine the logical unit category
 type UnitCategory = 'px' | 'percent' | 'viewport';
 
@@ -25,6 +43,65 @@ const getUnitCategory = (unit: UnitType): UnitCategory => {
     return 'percent';
 };
 
+// Accepts `16:9`, `16/9` or a plain ratio such as `1.5`
+const parseAspectRatio = (text: string): number | null => {
+    const match = /^\s*(\d+(?:\.\d*)?)\s*(?:[:/]\s*(\d+(?:\.\d*)?))?\s*$/.exec(text);
+    if (!match) return null;
+    const ratio = match[2] !== undefined ? parseFloat(match[1]) / parseFloat(match[2]) : parseFloat(match[1]);
+    return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+const AspectRatioInput: React.FC<{ value: number; onChange: (ratio: number) => void }> = ({ value, onChange }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    return (
+        <input
+            type="text"
+            value={draft ?? parseFloat(value.toFixed(3)).toString()}
+            onChange={(e) => {
+                setDraft(e.target.value);
+                const ratio = parseAspectRatio(e.target.value);
+                if (ratio) onChange(ratio);
+            }}
+            onBlur={() => setDraft(null)}
+            title="Width / height, e.g. 16:9 or 1.5"
+            className={clsx(
+                "bg-gray-800 border rounded w-20 px-2 py-1 text-white font-mono text-right focus:outline-none",
+                draft === null || parseAspectRatio(draft) ? "border-gray-700 focus:border-blue-500" : "border-red-500"
+            )}
+        />
+    );
+};
+
+// Track list such as `200px 1fr 25%`; keeps the typed text until it parses
+// `required` refuses an empty list (a grid needs a column), keeping it as an invalid draft
+const TrackListInput: React.FC<{ label: string; value: GridTrack[]; onChange: (tracks: GridTrack[]) => void; required?: boolean }> = ({ label, value, onChange, required }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const parse = (text: string) => {
+        const tracks = parseGridTracks(text);
+        return tracks && (!required || tracks.length > 0) ? tracks : null;
+    };
+    return (
+        <label className="flex items-center justify-between gap-2 mb-2 text-xs text-gray-400">
+            {label}
+            <input
+                type="text"
+                value={draft ?? formatGridTracks(value)}
+                onChange={(e) => {
+                    setDraft(e.target.value);
+                    const tracks = parse(e.target.value);
+                    if (tracks) onChange(tracks);
+                }}
+                onBlur={() => setDraft(null)}
+                title="Track sizes in px, % or fr, e.g. 200px 1fr 1fr"
+                className={clsx(
+                    "bg-gray-800 border rounded w-40 px-2 py-1 text-white font-mono text-right focus:outline-none",
+                    draft === null || parse(draft) ? "border-gray-700 focus:border-blue-500" : "border-red-500"
+                )}
+            />
+        </label>
+    );
+};
+
 const PropertyRow: React.FC<{
   label: string;
   icon?: React.ReactNode;
@@ -34,12 +111,19 @@ const PropertyRow: React.FC<{
   currentPixels: number; // The high-precision absolute magnitude/offset currently rendered
   viewport: Viewport;
   parentRect: { width: number; height: number };
-}> = ({ label, icon, value, axis, onChange, currentPixels, viewport, parentRect }) => {
+  onRemove?: () => void; // Shown for optional values (e.g. constraints)
+  onReset?: () => void; // Set when a breakpoint overrides the value
+}> = ({ label, icon, value, axis, onChange, currentPixels, viewport, parentRect, onRemove, onReset }) => {
   
+  // Text being typed. Incomplete expressions (e.g. `100%w -`) live here until they parse.
+  const [draft, setDraft] = useState<string | null>(null);
+  const isDraftValid = draft === null || parseLayoutExpression(draft, value.unit) !== null;
+
   const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    // User manual input
-    const floatVal = parseFloat(e.target.value);
-    onChange({ ...value, value: isNaN(floatVal) ? 0 : floatVal });
+    // User manual input: a number, or a calc expression such as `100%w - 32px`
+    setDraft(e.target.value);
+    const parsed = parseLayoutExpression(e.target.value, value.unit);
+    if (parsed) onChange(parsed);
   };
 
   const currentCategory = getUnitCategory(value.unit);
@@ -66,33 +150,49 @@ const PropertyRow: React.FC<{
 
       // CRITICAL: Convert current visual pixels to the new unit value
       // This ensures the element does not visually move/resize.
-      const newValue = fromPixels(currentPixels, nextUnit, viewport, parentRect);
-      onChange({ value: newValue, unit: nextUnit });
+      // Calc values keep their extra terms; only the primary term changes unit.
+      onChange(valueFromPixels(currentPixels, { ...value, unit: nextUnit }, viewport, parentRect));
   };
 
-  // Display formatting: Allow typing, but show reasonable precision
-  // We use key to force re-render input when value changes externally to prevent stale state if we used local state
-  const displayValue = Number.isInteger(value.value) ? value.value.toString() : value.value.toFixed(2);
+  // Display formatting: show reasonable precision unless the user is mid-edit
+  const displayValue = draft ?? formatLayoutValue(value);
 
   return (
     <div className="flex flex-col gap-1.5 mb-4">
       <div className="flex items-center justify-between">
-          <div className="flex items-center gap-1.5 text-xs text-gray-400 font-medium">
+          <div className={clsx("flex items-center gap-1.5 text-xs font-medium", onReset ? "text-amber-300" : "text-gray-400")}>
             {icon}
             <span>{label}</span>
           </div>
-          <span className="text-[10px] text-gray-600 font-mono">
-             {currentPixels.toFixed(1)}px
-          </span>
+          <div className="flex items-center gap-1.5">
+              <span className="text-[10px] text-gray-600 font-mono">
+                 {currentPixels.toFixed(1)}px
+              </span>
+              {onReset && (
+                  <button onClick={onReset} className="text-amber-400/70 hover:text-amber-300" title={`Overridden on this breakpoint. Reset ${label} to the base value`}>
+                      <RotateCcw size={12} />
+                  </button>
+              )}
+              {onRemove && (
+                  <button onClick={onRemove} className="text-gray-600 hover:text-red-400" title={`Remove ${label}`}>
+                      <X size={12} />
+                  </button>
+              )}
+          </div>
       </div>
       
       <div className="flex gap-2 h-8">
         <input
-          type="number"
-          step="0.1"
+          type="text"
+          inputMode="decimal"
           value={displayValue}
           onChange={handleValueChange}
-          className="bg-gray-800 border border-gray-700 rounded-lg flex-1 min-w-0 px-3 text-sm text-white focus:outline-none focus:border-blue-500 font-mono text-right transition-colors"
+          onBlur={() => setDraft(null)}
+          title="A number, or a sum of units such as 100%w - 32px"
+          className={clsx(
+            "bg-gray-800 border rounded-lg flex-1 min-w-0 px-3 text-sm text-white focus:outline-none font-mono text-right transition-colors",
+            isDraftValid ? "border-gray-700 focus:border-blue-500" : "border-red-500"
+          )}
         />
         
         {/* Unit Toggle Group */}
@@ -149,14 +249,21 @@ const PropertyRow: React.FC<{
 };
 
 export const PropertyPanel: React.FC<PropertyPanelProps> = ({
-  selectedId,
+  selectedIds,
   elements,
   viewport,
+  editBreakpoint,
   onUpdate,
+  onLockParent,
+  onRedetectParent,
+  onSetLayoutMode,
+  onResetOverrides,
 }) => {
-  // Compute runtime elements to get current logical/visual info
-  const runtimeElements = useMemo(() => calculateRuntimePositions(elements, viewport), [elements, viewport]);
-  const selectedEl = runtimeElements.find((e) => e.id === selectedId);
+  // App keeps `_runtime` current on every commit, so the panel reads it instead of laying out again
+  const runtimeElements = elements;
+  const elementsById = useMemo(() => new Map(runtimeElements.map(el => [el.id, el])), [runtimeElements]);
+  // Layout properties are edited one element at a time
+  const selectedEl = selectedIds.length === 1 ? elementsById.get(selectedIds[0]) : undefined;
 
   // Identify purely visual parent (for UI hint only)
   const visualParent = useMemo(() => {
@@ -173,6 +280,23 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
     return candidates[0] || null;
   }, [selectedEl, runtimeElements]);
 
+  if (selectedIds.length > 1) {
+    const selectedNames = selectedIds
+        .map(id => runtimeElements.find(e => e.id === id))
+        .filter(Boolean)
+        .map(e => e!.name);
+    return (
+      <div className="w-80 bg-gray-900 border-l border-gray-800 p-8 text-gray-500 text-sm flex flex-col items-center justify-center h-full text-center">
+        <Layers size={40} className="mb-4 opacity-20" />
+        <p className="text-gray-300 font-bold mb-2">{selectedIds.length} elements selected</p>
+        <p className="text-xs mb-4">Drag or resize them together on the canvas. Select a single element to edit its layout.</p>
+        <ul className="text-xs text-gray-400 space-y-1">
+            {selectedNames.map((name, i) => <li key={i}>{name}</li>)}
+        </ul>
+      </div>
+    );
+  }
+
   if (!selectedEl || !selectedEl._runtime) {
     return (
       <div className="w-80 bg-gray-900 border-l border-gray-800 p-8 text-gray-500 text-sm flex flex-col items-center justify-center h-full text-center">
@@ -184,7 +308,31 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
 
   // Get the Logical Parent Rect for calculations
   // This must match the Layout Engine's parenting logic so conversions are accurate
-  const logicalParentRect = getParentRect(selectedEl._runtime.parentId, runtimeElements, viewport);
+  const logicalParentRect = getParentRect(selectedEl._runtime.parentId, elementsById, viewport);
+  const logicalParent = selectedEl._runtime.parentId ? elementsById.get(selectedEl._runtime.parentId) : undefined;
+  // Stack items are positioned by their stack, so offsets do not apply
+  const parentStack = logicalParent ? getStackConfig(logicalParent.layout) : null;
+  const parentGrid = logicalParent ? getGridConfig(logicalParent.layout) : null;
+  const ownStack = getStackConfig(selectedEl.layout);
+  const ownGrid = getGridConfig(selectedEl.layout);
+
+  // Values a breakpoint override supplies on this viewport
+  const overriddenKeys = getOverriddenKeys(selectedEl, viewport);
+  const resetFor = (key: keyof LayoutConfig) =>
+      overriddenKeys.includes(key) ? () => onResetOverrides(selectedEl.id, [key]) : undefined;
+
+  const updateStack = (patch: Partial<StackConfig>) => {
+      onUpdate(selectedEl.id, { stack: { ...ownStack!, ...patch } });
+  };
+  const updateGrid = (patch: Partial<GridConfig>) => {
+      onUpdate(selectedEl.id, { grid: { ...ownGrid!, ...patch } });
+  };
+  // Without a cell the item is auto-placed; editing any field pins it
+  const currentCell: GridCell = selectedEl.layout.gridCell || { column: 1, row: 1 };
+  const updateCell = (key: keyof GridCell, value: number) => {
+      if (!Number.isFinite(value) || value < 1) return;
+      onUpdate(selectedEl.id, { gridCell: { ...currentCell, [key]: Math.round(value) } });
+  };
 
   // Helper to get CURRENT PRECISE PIXEL OFFSET/SIZE
   // This is the source of truth for converting units
@@ -216,10 +364,44 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
       return 0;
   };
 
+  // Current end inset (distance from the parent's right/bottom edge) of a stretched axis
+  const getEndInsetPixels = (axis: 'x' | 'y') => {
+      const rt = selectedEl._runtime!;
+      return axis === 'x'
+          ? convertAbsoluteToOffset(rt.x, 'right', 'x', rt.width, UnitType.PX, viewport, logicalParentRect)
+          : convertAbsoluteToOffset(rt.y, 'bottom', 'y', rt.height, UnitType.PX, viewport, logicalParentRect);
+  };
+
   const updateProp = (prop: keyof LayoutElement['layout'], newVal: LayoutValue) => {
     onUpdate(selectedEl.id, { [prop]: newVal });
   };
 
+  // Width/height are stored only where they drive the layout: not on a stretched axis and not
+  // when derived from the aspect ratio. Adds or drops them for a pending change, keeping the current size.
+  const withSizeKeys = (patch: Partial<LayoutElement['layout']>): Partial<LayoutElement['layout']> => {
+      const next = { ...selectedEl.layout, ...patch };
+      const derived = getDerivedDimension(next);
+      const result = { ...patch };
+      (['width', 'height'] as const).forEach(dim => {
+          const stretched = (dim === 'width' ? next.anchorX : next.anchorY) === 'stretch';
+          const needed = !stretched && derived !== dim;
+          if (needed && !next[dim]) {
+              // Reuse the other dimension's unit so a % layout stays %
+              const other = next[dim === 'width' ? 'height' : 'width'];
+              result[dim] = valueFromPixels(getPixels(dim), { value: 0, unit: other ? other.unit : UnitType.PX }, viewport, logicalParentRect);
+          } else if (!needed && next[dim]) {
+              result[dim] = undefined;
+          }
+      });
+      return result;
+  };
+
+  const handleToggleAspectRatio = () => {
+      const rt = selectedEl._runtime!;
+      const ratio = selectedEl.layout.aspectRatio ? undefined : parseFloat((rt.width / rt.height).toFixed(4));
+      onUpdate(selectedEl.id, withSizeKeys({ aspectRatio: ratio }));
+  };
+
   // Logic to switch Anchors without moving the Element
   const handleChangeAnchor = (axis: 'x' | 'y', newAnchor: AnchorX | AnchorY) => {
       // 1. Get current Absolute Position
@@ -228,26 +410,45 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
       
       // 2. Calculate what the Offset Value needs to be for the NEW anchor
       //    to keep the element at 'currentAbs'
-      const newOffsetValue = convertAbsoluteToOffset(
+      const newOffsetValue = offsetValueFromAbsolute(
           currentAbs,
           newAnchor,
           axis,
           size,
-          axis === 'x' ? selectedEl.layout.x.unit : selectedEl.layout.y.unit, // Keep current unit
+          axis === 'x' ? selectedEl.layout.x : selectedEl.layout.y, // Keep current unit
           viewport,
           logicalParentRect
       );
 
+      // Stretching swaps the fixed size for an end inset; leaving stretch drops it again
+      const endKey = axis === 'x' ? 'xEnd' : 'yEnd';
+      const endUpdate: Partial<LayoutElement['layout']> = {};
+      if (newAnchor === 'stretch') {
+          endUpdate[endKey] = offsetValueFromAbsolute(
+              currentAbs,
+              axis === 'x' ? 'right' : 'bottom',
+              axis,
+              size,
+              selectedEl.layout[endKey] || newOffsetValue,
+              viewport,
+              logicalParentRect
+          );
+      } else {
+          endUpdate[endKey] = undefined;
+      }
+
       if (axis === 'x') {
-          onUpdate(selectedEl.id, { 
+          onUpdate(selectedEl.id, withSizeKeys({ 
               anchorX: newAnchor as AnchorX,
-              x: { ...selectedEl.layout.x, value: newOffsetValue }
-          });
+              x: newOffsetValue,
+              ...endUpdate
+          }));
       } else {
-          onUpdate(selectedEl.id, { 
+          onUpdate(selectedEl.id, withSizeKeys({ 
               anchorY: newAnchor as AnchorY,
-              y: { ...selectedEl.layout.y, value: newOffsetValue }
-          });
+              y: newOffsetValue,
+              ...endUpdate
+          }));
       }
   };
 
@@ -272,6 +473,45 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
       </div>
 
       <div className="p-4 space-y-6">
+
+        {/* Breakpoint Overrides */}
+        {(editBreakpoint || overriddenKeys.length > 0) && (
+            <div className="bg-amber-500/5 rounded-lg border border-amber-500/20 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold text-amber-300 uppercase flex items-center gap-1">
+                        <MonitorSmartphone size={12} /> Breakpoint
+                    </span>
+                    {overriddenKeys.length > 0 && (
+                        <button
+                            onClick={() => onResetOverrides(selectedEl.id)}
+                            className="text-[10px] text-amber-300/80 hover:text-white flex items-center gap-1"
+                            title="Remove every override that applies on this viewport"
+                        >
+                            <RotateCcw size={10} /> Reset all
+                        </button>
+                    )}
+                </div>
+                <p className="text-[10px] text-gray-400">
+                    {editBreakpoint
+                        ? <>Edits apply to <strong className="text-amber-200">{formatBreakpoint(editBreakpoint)}</strong> only.</>
+                        : 'Edits apply to all viewports; overridden values are edited in their override.'}
+                </p>
+                {overriddenKeys.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {overriddenKeys.map(key => (
+                            <button
+                                key={key}
+                                onClick={() => onResetOverrides(selectedEl.id, [key])}
+                                className="px-1.5 py-0.5 text-[10px] font-mono rounded border border-amber-500/30 text-amber-200 hover:border-amber-400 hover:text-white flex items-center gap-1"
+                                title={`Reset ${key} to the base value`}
+                            >
+                                {key} <X size={10} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
         
         {/* Alignment / Anchor Section */}
         <div className="bg-gray-800/30 rounded-lg border border-gray-800 overflow-hidden">
@@ -309,6 +549,14 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
                         >
                             <AlignRight size={16} />
                         </button>
+                        <div className="w-px bg-gray-800 my-1"/>
+                        <button 
+                            onClick={() => handleChangeAnchor('x', 'stretch')} 
+                            className={clsx("flex-1 p-1.5 rounded flex justify-center transition-colors", selectedEl.layout.anchorX === 'stretch' ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white hover:bg-gray-800")}
+                            title="Stretch (pin left and right)"
+                        >
+                            <MoveHorizontal size={16} />
+                        </button>
                      </div>
                  </div>
 
@@ -339,66 +587,212 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
                         >
                             <AlignEndVertical size={16} />
                         </button>
+                        <div className="w-px bg-gray-800 my-1"/>
+                        <button 
+                            onClick={() => handleChangeAnchor('y', 'stretch')} 
+                            className={clsx("flex-1 p-1.5 rounded flex justify-center transition-colors", selectedEl.layout.anchorY === 'stretch' ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white hover:bg-gray-800")}
+                            title="Stretch (pin top and bottom)"
+                        >
+                            <MoveVertical size={16} />
+                        </button>
                      </div>
                  </div>
             </div>
             
-            <div className="bg-blue-900/20 py-1 px-3 border-t border-blue-900/30">
-                <p className="text-[10px] text-blue-300 text-center">
-                    Element anchored to <strong>{visualParent ? visualParent.name : 'Canvas'}</strong>
+            {parentStack && (
+                <p className="px-3 pb-2 text-[10px] text-gray-500">
+                    Positioned by the stack; only Stretch applies (fills the stack's content box).
                 </p>
+            )}
+            {parentGrid && (
+                <p className="px-3 pb-2 text-[10px] text-gray-500">
+                    Positioned by the grid; the item fills its cells.
+                </p>
+            )}
+            
+            <div className="bg-blue-900/20 py-1 px-3 border-t border-blue-900/30 flex items-center justify-between gap-2">
+                <p className="text-[10px] text-blue-300 flex items-center gap-1 min-w-0">
+                    {selectedEl.parent ? <Lock size={10} className="shrink-0" /> : <Unlock size={10} className="shrink-0 opacity-50" />}
+                    <span className="truncate">Anchored to <strong>{logicalParentRect.name}</strong></span>
+                </p>
+                {selectedEl.parent ? (
+                    <button
+                        onClick={() => onRedetectParent(selectedEl.id)}
+                        className="text-[10px] text-blue-300 hover:text-white flex items-center gap-1 shrink-0"
+                        title="Remove the locked parent and detect it from containment"
+                    >
+                        <RefreshCw size={10} /> Re-detect
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => onLockParent(selectedEl.id)}
+                        className="text-[10px] text-blue-300 hover:text-white flex items-center gap-1 shrink-0"
+                        title="Keep this parent on every viewport, regardless of containment"
+                    >
+                        <Lock size={10} /> Lock parent
+                    </button>
+                )}
             </div>
         </div>
 
+        {/* Grid Cell Section */}
+        {parentGrid && (
+            <div>
+               <div className="flex items-center gap-2 text-white mb-3 pb-1 border-b border-gray-800">
+                  <Grid3x3 size={14} className="text-blue-500" /> <span className="text-sm font-bold">Grid Cell</span>
+                  {!selectedEl.layout.gridCell && <span className="text-[10px] text-gray-500 ml-auto">auto-placed</span>}
+               </div>
+               <div className="grid grid-cols-2 gap-2">
+                   {([['column', 'Column'], ['row', 'Row'], ['columnSpan', 'Column span'], ['rowSpan', 'Row span']] as const).map(([key, label]) => (
+                       <label key={key} className="text-[10px] text-gray-500">
+                           {label}
+                           <input
+                               type="number"
+                               min={1}
+                               value={currentCell[key] ?? 1}
+                               onChange={(e) => updateCell(key, parseInt(e.target.value))}
+                               className="mt-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm w-full text-white focus:border-blue-500 outline-none"
+                           />
+                       </label>
+                   ))}
+               </div>
+            </div>
+        )}
+
         {/* Position Section */}
-        <div>
-           <div className="flex items-center gap-2 text-white mb-3 pb-1 border-b border-gray-800">
-              <Move size={14} className="text-blue-500" /> <span className="text-sm font-bold">Offset</span>
-           </div>
+        {!parentStack && !parentGrid && (
+            <div>
+               <div className="flex items-center gap-2 text-white mb-3 pb-1 border-b border-gray-800">
+                  <Move size={14} className="text-blue-500" /> <span className="text-sm font-bold">Offset</span>
+               </div>
            
-            <PropertyRow
-                label={selectedEl.layout.anchorX === 'right' ? 'Right' : selectedEl.layout.anchorX === 'center' ? 'Center X' : 'Left'}
-                axis="x"
-                value={selectedEl.layout.x}
-                onChange={(v) => updateProp('x', v)}
-                currentPixels={getPixels('x')}
-                viewport={viewport}
-                parentRect={logicalParentRect}
-            />
-            <PropertyRow
-                label={selectedEl.layout.anchorY === 'bottom' ? 'Bottom' : selectedEl.layout.anchorY === 'center' ? 'Center Y' : 'Top'}
-                axis="y"
-                value={selectedEl.layout.y}
-                onChange={(v) => updateProp('y', v)}
-                currentPixels={getPixels('y')}
-                viewport={viewport}
-                parentRect={logicalParentRect}
-            />
-        </div>
+                <PropertyRow
+                    label={selectedEl.layout.anchorX === 'right' ? 'Right' : selectedEl.layout.anchorX === 'center' ? 'Center X' : 'Left'}
+                    axis="x"
+                    value={selectedEl.layout.x}
+                    onChange={(v) => updateProp('x', v)}
+                    currentPixels={getPixels('x')}
+                    viewport={viewport}
+                    parentRect={logicalParentRect}
+                    onReset={resetFor('x')}
+                />
+                {selectedEl.layout.anchorX === 'stretch' && (
+                    <PropertyRow
+                        label="Right"
+                        axis="x"
+                        value={selectedEl.layout.xEnd || { value: 0, unit: UnitType.PX }}
+                        onChange={(v) => updateProp('xEnd', v)}
+                        currentPixels={getEndInsetPixels('x')}
+                        viewport={viewport}
+                        parentRect={logicalParentRect}
+                        onReset={resetFor('xEnd')}
+                    />
+                )}
+                <PropertyRow
+                    label={selectedEl.layout.anchorY === 'bottom' ? 'Bottom' : selectedEl.layout.anchorY === 'center' ? 'Center Y' : 'Top'}
+                    axis="y"
+                    value={selectedEl.layout.y}
+                    onChange={(v) => updateProp('y', v)}
+                    currentPixels={getPixels('y')}
+                    viewport={viewport}
+                    parentRect={logicalParentRect}
+                    onReset={resetFor('y')}
+                />
+                {selectedEl.layout.anchorY === 'stretch' && (
+                    <PropertyRow
+                        label="Bottom"
+                        axis="y"
+                        value={selectedEl.layout.yEnd || { value: 0, unit: UnitType.PX }}
+                        onChange={(v) => updateProp('yEnd', v)}
+                        currentPixels={getEndInsetPixels('y')}
+                        viewport={viewport}
+                        parentRect={logicalParentRect}
+                        onReset={resetFor('yEnd')}
+                    />
+                )}
+            </div>
+        )}
 
         {/* Size Section */}
         <div>
            <div className="flex items-center gap-2 text-white mb-3 pb-1 border-b border-gray-800">
               <Maximize2 size={14} className="text-blue-500" /> <span className="text-sm font-bold">Size</span>
            </div>
-           <PropertyRow
-                label="Width"
-                axis="width"
-                value={selectedEl.layout.width}
-                onChange={(v) => updateProp('width', v)}
-                currentPixels={getPixels('width')}
-                viewport={viewport}
-                parentRect={logicalParentRect}
-            />
-            <PropertyRow
-                label="Height"
-                axis="height"
-                value={selectedEl.layout.height}
-                onChange={(v) => updateProp('height', v)}
-                currentPixels={getPixels('height')}
-                viewport={viewport}
-                parentRect={logicalParentRect}
-            />
+           {(['width', 'height'] as const).map(dim => selectedEl.layout[dim] ? (
+                <PropertyRow
+                    key={dim}
+                    label={dim === 'width' ? 'Width' : 'Height'}
+                    axis={dim}
+                    value={selectedEl.layout[dim]!}
+                    onChange={(v) => updateProp(dim, v)}
+                    currentPixels={getPixels(dim)}
+                    viewport={viewport}
+                    parentRect={logicalParentRect}
+                    onReset={resetFor(dim)}
+                />
+            ) : (
+                // Stretched or ratio-derived: the size follows the insets / the other dimension
+                <div key={dim} className="flex items-center justify-between mb-3 text-xs">
+                    <span className="text-gray-400 font-medium">{dim === 'width' ? 'Width' : 'Height'}</span>
+                    <span className="text-gray-500 font-mono">
+                        {getPixels(dim).toFixed(1)}px ({getDerivedDimension(selectedEl.layout) === dim ? 'aspect ratio' : 'stretched'})
+                    </span>
+                </div>
+            ))}
+
+            {/* Aspect Ratio */}
+            <div className="flex items-center justify-between mb-4 text-xs">
+                <span className="text-gray-400 font-medium">Aspect Ratio</span>
+                <div className="flex items-center gap-1.5">
+                    {selectedEl.layout.aspectRatio && (
+                        <AspectRatioInput
+                            value={selectedEl.layout.aspectRatio}
+                            onChange={(ratio) => onUpdate(selectedEl.id, { aspectRatio: ratio })}
+                        />
+                    )}
+                    <button
+                        onClick={handleToggleAspectRatio}
+                        className={clsx(
+                            "p-1.5 rounded border transition-colors",
+                            selectedEl.layout.aspectRatio ? "bg-blue-600 border-blue-500 text-white" : "bg-gray-800 border-gray-700 text-gray-400 hover:text-white"
+                        )}
+                        title={selectedEl.layout.aspectRatio ? "Unlock aspect ratio" : "Lock the current aspect ratio"}
+                    >
+                        {selectedEl.layout.aspectRatio ? <Link size={12} /> : <Unlink size={12} />}
+                    </button>
+                </div>
+            </div>
+
+            {/* Min / Max Constraints */}
+            {CONSTRAINTS.filter(c => selectedEl.layout[c.key]).map(c => (
+                <PropertyRow
+                    key={c.key}
+                    label={c.label}
+                    axis={c.axis}
+                    value={selectedEl.layout[c.key]!}
+                    onChange={(v) => updateProp(c.key, v)}
+                    currentPixels={toPixels(selectedEl.layout[c.key]!, viewport, logicalParentRect)}
+                    viewport={viewport}
+                    parentRect={logicalParentRect}
+                    onRemove={() => onUpdate(selectedEl.id, { [c.key]: undefined })}
+                    onReset={resetFor(c.key)}
+                />
+            ))}
+            <div className="flex flex-wrap gap-1">
+                {CONSTRAINTS.filter(c => !selectedEl.layout[c.key]).map(c => (
+                    <button
+                        key={c.key}
+                        // Start from the current size, in the same unit as the dimension it constrains
+                        onClick={() => {
+                            const unit = selectedEl.layout[c.axis]?.unit ?? UnitType.PX;
+                            updateProp(c.key, { value: fromPixels(getPixels(c.axis), unit, viewport, logicalParentRect), unit });
+                        }}
+                        className="text-[10px] text-gray-400 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 flex items-center gap-1 hover:text-white hover:border-blue-500"
+                    >
+                        <Plus size={10} /> {c.label}
+                    </button>
+                ))}
+            </div>
         </div>
         
         {/* Layer & Settings Section */}
@@ -431,6 +825,124 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
                         <span className="text-[9px] text-gray-500">Allow other elements inside</span>
                     </div>
                 </label>
+
+                {/* Children Layout */}
+                {selectedEl.layout.isContainer !== false && (
+                    <div>
+                        <span className="text-[10px] text-gray-500 block mb-1">Children Layout</span>
+                        <div className="flex bg-gray-900 rounded border border-gray-700 p-0.5 mb-3">
+                            {(['absolute', 'stack', 'grid'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => onSetLayoutMode(selectedEl.id, mode)}
+                                    className={clsx(
+                                        "flex-1 py-1 rounded text-xs capitalize transition-colors",
+                                        (selectedEl.layout.layoutMode || 'absolute') === mode ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white hover:bg-gray-800"
+                                    )}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+
+                        {ownStack && (
+                            <>
+                                <div className="flex items-center justify-between mb-3 text-xs">
+                                    <span className="text-gray-400 font-medium flex items-center gap-1.5"><Rows3 size={12} /> Direction</span>
+                                    <div className="flex bg-gray-900 rounded border border-gray-700 p-0.5">
+                                        <button
+                                            onClick={() => updateStack({ direction: 'row' })}
+                                            className={clsx("p-1 rounded", ownStack.direction === 'row' ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white")}
+                                            title="Row"
+                                        >
+                                            <ArrowRight size={14} />
+                                        </button>
+                                        <button
+                                            onClick={() => updateStack({ direction: 'column' })}
+                                            className={clsx("p-1 rounded", ownStack.direction === 'column' ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white")}
+                                            title="Column"
+                                        >
+                                            <ArrowDown size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {/* Percentages refer to the stack itself */}
+                                {(['gap', 'padding'] as const).map(key => (
+                                    <PropertyRow
+                                        key={key}
+                                        label={key === 'gap' ? 'Gap' : 'Padding'}
+                                        axis="width"
+                                        value={ownStack[key] || { value: 0, unit: UnitType.PX }}
+                                        onChange={(v) => updateStack({ [key]: v })}
+                                        currentPixels={ownStack[key] ? toPixels(ownStack[key]!, viewport, selectedEl._runtime!) : 0}
+                                        viewport={viewport}
+                                        parentRect={selectedEl._runtime!}
+                                    />
+                                ))}
+
+                                <div className="grid grid-cols-2 gap-2 mb-3">
+                                    <label className="text-[10px] text-gray-500">
+                                        Main axis
+                                        <select
+                                            value={ownStack.mainAlign || 'start'}
+                                            onChange={(e) => updateStack({ mainAlign: e.target.value as StackConfig['mainAlign'] })}
+                                            className="mt-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs w-full text-white outline-none focus:border-blue-500"
+                                        >
+                                            <option value="start">Start</option>
+                                            <option value="center">Center</option>
+                                            <option value="end">End</option>
+                                            <option value="space-between">Space between</option>
+                                        </select>
+                                    </label>
+                                    <label className="text-[10px] text-gray-500">
+                                        Cross axis
+                                        <select
+                                            value={ownStack.crossAlign || 'start'}
+                                            onChange={(e) => updateStack({ crossAlign: e.target.value as StackConfig['crossAlign'] })}
+                                            className="mt-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs w-full text-white outline-none focus:border-blue-500"
+                                        >
+                                            <option value="start">Start</option>
+                                            <option value="center">Center</option>
+                                            <option value="end">End</option>
+                                            <option value="stretch">Stretch</option>
+                                        </select>
+                                    </label>
+                                </div>
+
+                                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!ownStack.wrap}
+                                        onChange={(e) => updateStack({ wrap: e.target.checked })}
+                                        className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    Wrap onto new lines
+                                </label>
+                            </>
+                        )}
+
+                        {ownGrid && (
+                            <>
+                                <TrackListInput label="Columns" value={ownGrid.columns} onChange={(columns) => updateGrid({ columns })} required />
+                                <TrackListInput label="Rows" value={ownGrid.rows} onChange={(rows) => updateGrid({ rows })} />
+                                {/* Percentages refer to the grid itself */}
+                                {([['columnGap', 'Column Gap', 'width'], ['rowGap', 'Row Gap', 'height'], ['padding', 'Padding', 'width']] as const).map(([key, label, axis]) => (
+                                    <PropertyRow
+                                        key={key}
+                                        label={label}
+                                        axis={axis}
+                                        value={ownGrid[key] || { value: 0, unit: UnitType.PX }}
+                                        onChange={(v) => updateGrid({ [key]: v })}
+                                        currentPixels={ownGrid[key] ? toPixels(ownGrid[key]!, viewport, selectedEl._runtime!) : 0}
+                                        viewport={viewport}
+                                        parentRect={selectedEl._runtime!}
+                                    />
+                                ))}
+                            </>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
       </div>
@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LayoutElement } from '../types';
+import { parseDocument, serializeDocument } from '../utils/dslYaml';
+import { DslDiagnostic, hasErrors } from '../utils/dslValidator';
+import { DiagnosticList } from './DiagnosticList';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface YamlEditorProps {
+  elements: LayoutElement[];
+  onApply: (elements: LayoutElement[]) => void;
+}
+
+export const YamlEditor: React.FC<YamlEditorProps> = ({ elements, onApply }) => {
+  const yamlString = useMemo(() => serializeDocument(elements), [elements]);
+
+  const [text, setText] = useState(yamlString);
+  const [diagnostics, setDiagnostics] = useState<DslDiagnostic[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // The serialized form of the last document we pushed up.
+  // When the incoming document matches it, the change came from us and the draft is kept as typed.
+  const lastAppliedRef = useRef(yamlString);
+
+  useEffect(() => {
+    if (yamlString !== lastAppliedRef.current) {
+      lastAppliedRef.current = yamlString;
+      setText(yamlString);
+      setDiagnostics([]);
+    }
+  }, [yamlString]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const source = e.target.value;
+    setText(source);
+
+    const result = parseDocument(source);
+    setDiagnostics(result.diagnostics);
+    // Keep the last good document on the canvas
+    if (!result.elements) return;
+
+    lastAppliedRef.current = serializeDocument(result.elements);
+    onApply(result.elements);
+  };
+
+  // Move the caret to the reported error position
+  const focusError = (err: DslDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !err.line) return;
+    const lines = text.split('\n');
+    let offset = 0;
+    for (let i = 0; i < err.line - 1 && i < lines.length; i++) offset += lines[i].length + 1;
+    offset += Math.max(0, (err.column || 1) - 1);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  const lineCount = text.split('\n').length;
+  const blocked = hasErrors(diagnostics);
+  const errorLines = new Set(diagnostics.map(e => e.line).filter(Boolean));
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900 border border-gray-800 rounded-lg p-6 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between mb-4 pb-4 border-b border-gray-800">
+        <h3 className="font-mono text-sm text-blue-400">layout.yaml</h3>
+        {!blocked ? (
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <CheckCircle2 size={12} className="text-green-500" /> Edits apply live
+          </span>
+        ) : (
+          <span className="text-xs text-red-400 flex items-center gap-1">
+            <AlertTriangle size={12} /> Not applied — fix errors below
+          </span>
+        )}
+      </div>
+
+      <div className="flex border border-gray-800 rounded bg-gray-950 overflow-hidden h-[60vh]">
+        <div
+          ref={gutterRef}
+          className="select-none text-right font-mono text-sm leading-relaxed text-gray-600 bg-gray-900/60 px-2 py-3 overflow-hidden shrink-0"
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={clsx(errorLines.has(i + 1) && "text-red-400 font-bold")}>{i + 1}</div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={handleChange}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          spellCheck={false}
+          className="flex-1 bg-transparent font-mono text-sm text-gray-300 leading-relaxed px-3 py-3 outline-none resize-none whitespace-pre overflow-auto custom-scrollbar"
+        />
+      </div>
+
+      {diagnostics.length > 0 && (
+        <div className="mt-4">
+          <DiagnosticList diagnostics={diagnostics} onSelect={focusError} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Viewport } from './types';
+import { Breakpoint, Viewport } from './types';
 
 export const VIEWPORTS: Viewport[] = [
   { name: 'Desktop', width: 1280, height: 800, icon: 'monitor' },
@@ -7,6 +7,17 @@ export const VIEWPORTS: Viewport[] = [
   { name: 'Wide', width: 1920, height: 1080, icon: 'tv' },
 ];
 
+// Breakpoints the editor writes overrides into, one per viewport preset
+export const BREAKPOINTS: (Breakpoint & { name: string })[] = [
+  { name: 'Mobile', maxWidth: 767 },
+  { name: 'Tablet', minWidth: 768, maxWidth: 1279 },
+  { name: 'Desktop', minWidth: 1280, maxWidth: 1919 },
+  { name: 'Wide', minWidth: 1920 },
+];
+
+// Explicit `parent` value that pins an element to the canvas itself
+export const ROOT_PARENT_ID = 'root';
+
 export const RESIZE_HANDLES = ['nw', 'n', 'ne', 'w', 'e', 'sw', 's', 'se'];
 
 export const DEFAULT_LAYOUT = {
@@ -0,0 +1,118 @@
+import { useCallback, useRef, useState } from 'react';
+import { LayoutElement } from '../types';
+import { LayoutState } from '../utils/layoutUtils';
+
+// Consecutive commits sharing a merge key within this window collapse into one undo step
+const MERGE_WINDOW_MS = 1000;
+const MAX_HISTORY = 100;
+
+interface HistoryEntry {
+  label: string;          // Human-readable description of the change that followed this snapshot
+  elements: LayoutElement[];
+  mergeKey?: string;
+  timestamp: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: LayoutElement[];
+  // The layout `present` came out of, when the change that produced it ran one
+  layout: LayoutState | null;
+  future: HistoryEntry[];
+}
+
+export interface CommitOptions {
+  // Rapid edits with the same key (e.g. typing into one property input) become a single step
+  mergeKey?: string;
+}
+
+// Updaters that lay the document out may hand back the whole layout state so it is kept with the result
+type Updater = (prev: LayoutElement[]) => LayoutElement[] | LayoutState;
+
+const toPresent = (next: LayoutElement[] | LayoutState) =>
+  Array.isArray(next) ? { present: next, layout: null } : { present: next.elements, layout: next };
+
+/**
+ * Document state with an undo/redo stack.
+ *
+ * `commit` records a labelled step; `replace` changes the document without history
+ * (used for derived recalculations such as a viewport switch).
+ * `relayout` is applied to snapshots restored by undo/redo so their runtime geometry
+ * matches the current viewport.
+ * `layout` is the layout state behind `elements` when the last change handed one back.
+ */
+export const useDocumentHistory = (
+  initial: () => LayoutElement[] | LayoutState,
+  relayout: (elements: LayoutElement[]) => LayoutElement[] | LayoutState
+) => {
+  const [state, setState] = useState<HistoryState>(() => ({ past: [], ...toPresent(initial()), future: [] }));
+
+  const relayoutRef = useRef(relayout);
+  relayoutRef.current = relayout;
+
+  const commit = useCallback((label: string, updater: Updater, options: CommitOptions = {}) => {
+    setState((prev) => {
+      const next = toPresent(updater(prev.present));
+      if (next.present === prev.present) return prev;
+
+      const now = Date.now();
+      const last = prev.past[prev.past.length - 1];
+      if (
+        options.mergeKey &&
+        last &&
+        last.mergeKey === options.mergeKey &&
+        prev.future.length === 0 &&
+        now - last.timestamp < MERGE_WINDOW_MS
+      ) {
+        // Extend the previous step instead of pushing a new one
+        const merged = { ...last, timestamp: now };
+        return { past: [...prev.past.slice(0, -1), merged], ...next, future: [] };
+      }
+
+      const entry: HistoryEntry = { label, elements: prev.present, mergeKey: options.mergeKey, timestamp: now };
+      return { past: [...prev.past, entry].slice(-MAX_HISTORY), ...next, future: [] };
+    });
+  }, []);
+
+  const replace = useCallback((updater: Updater) => {
+    setState((prev) => {
+      const next = toPresent(updater(prev.present));
+      return next.present === prev.present ? prev : { ...prev, ...next };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((prev) => {
+      const entry = prev.past[prev.past.length - 1];
+      if (!entry) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        ...toPresent(relayoutRef.current(entry.elements)),
+        future: [...prev.future, { label: entry.label, elements: prev.present, timestamp: Date.now() }],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((prev) => {
+      const entry = prev.future[prev.future.length - 1];
+      if (!entry) return prev;
+      return {
+        past: [...prev.past, { label: entry.label, elements: prev.present, timestamp: Date.now() }],
+        ...toPresent(relayoutRef.current(entry.elements)),
+        future: prev.future.slice(0, -1),
+      };
+    });
+  }, []);
+
+  return {
+    elements: state.present,
+    layout: state.layout,
+    commit,
+    replace,
+    undo,
+    redo,
+    undoLabel: state.past.length > 0 ? state.past[state.past.length - 1].label : null,
+    redoLabel: state.future.length > 0 ? state.future[state.future.length - 1].label : null,
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Layout engine benchmark on generated documents (see syntheticLayout.ts).
+ *
+ *   npm run bench                   1k, 5k and 10k elements
+ *   npm run bench -- 2000 20000     custom sizes
+ *
+ * Prints the median and fastest time of calculateRuntimePositions per document size.
+ */
+import { VIEWPORTS } from '../constants';
+import { calculateRuntimePositions } from '../utils/layoutUtils';
+import { generateDocument } from './syntheticLayout';
+
+const DEFAULT_SIZES = [1000, 5000, 10000];
+const RUNS = 7;
+
+const sizes = process.argv.slice(2).map(Number).filter((n) => Number.isInteger(n) && n > 0);
+const viewport = VIEWPORTS[0];
+
+(sizes.length > 0 ? sizes : DEFAULT_SIZES).forEach((size) => {
+  const doc = generateDocument(size);
+  // Warm-up run, so the JIT has seen the engine before timing starts
+  calculateRuntimePositions(doc, viewport);
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    calculateRuntimePositions(doc, viewport);
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  const median = times[Math.floor(times.length / 2)];
+  console.log(`${String(size).padStart(6)} elements: median ${median.toFixed(1)} ms, fastest ${times[0].toFixed(1)} ms (${RUNS} runs)`);
+});
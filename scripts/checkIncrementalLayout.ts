@@ -0,0 +1,57 @@
+/**
+ * Checks that relayoutElement matches a full layoutDocument on random documents,
+ * and that the diagnostics it keeps up to date match those of a full calculateLayout.
+ *
+ *   npm run check:layout              200 documents
+ *   npm run check:layout -- 1000      more documents
+ *
+ * Each document gets a chain of single-element edits laid out incrementally; every step is
+ * compared with a full layout of the same document right away, which must not disturb the
+ * chain's state. Exits 1 on the first difference.
+ */
+import { LayoutElement } from '../types';
+import { VIEWPORTS } from '../constants';
+import { calculateLayout, getLayoutDiagnostics, layoutDocument, relayoutElement } from '../utils/layoutUtils';
+import { createRandom, generateRandomDocument, randomElementPatch } from './syntheticLayout';
+
+const EDITS_PER_DOCUMENT = 8;
+
+const documents = Number(process.argv[2]) || 200;
+let steps = 0;
+let reused = 0;
+let total = 0;
+
+const main = (): number => {
+  for (let seed = 1; seed <= documents; seed++) {
+    const viewport = VIEWPORTS[seed % VIEWPORTS.length];
+    const random = createRandom(seed * 7919);
+    const ids = generateRandomDocument(seed).map((el) => el.id);
+
+    let state = layoutDocument(generateRandomDocument(seed), viewport);
+    getLayoutDiagnostics(state);
+    for (let edit = 0; edit < EDITS_PER_DOCUMENT; edit++) {
+      const editedId = ids[Math.floor(random() * ids.length)];
+      const doc: LayoutElement[] = state.elements.map((el) => (el.id === editedId ? { ...el, ...randomElementPatch(random, ids) } : el));
+      const next = relayoutElement(state, doc, editedId, viewport);
+      reused += next.elements.filter((el, i) => el === state.elements[i]).length;
+      total += next.elements.length;
+      state = next;
+
+      const expected = calculateLayout(doc, viewport);
+      steps++;
+      if (JSON.stringify(state.elements) !== JSON.stringify(expected.elements)) {
+        console.error(`Mismatch: document ${seed}, edit ${edit + 1} (${editedId}) at ${viewport.name}`);
+        return 1;
+      }
+      if (JSON.stringify(getLayoutDiagnostics(state)) !== JSON.stringify(expected.diagnostics)) {
+        console.error(`Diagnostics mismatch: document ${seed}, edit ${edit + 1} (${editedId}) at ${viewport.name}`);
+        return 1;
+      }
+    }
+  }
+  const share = total > 0 ? Math.round((reused / total) * 100) : 0;
+  console.log(`${steps} incremental layouts across ${documents} documents match a full layout and its diagnostics (${share}% of elements reused).`);
+  return 0;
+};
+
+process.exitCode = main();
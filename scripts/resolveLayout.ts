@@ -0,0 +1,104 @@
+/**
+ * Headless layout resolution for CI: reads a DSL YAML file and prints every element's
+ * absolute rect and parent per viewport as JSON, using the same engine as the editor.
+ *
+ *   npm run layout -- layout.yaml                       all VIEWPORTS presets
+ *   npm run layout -- layout.yaml -v Mobile -v 1440x900  named presets or WIDTHxHEIGHT
+ *
+ * Diagnostics, including layout warnings per viewport, go to stderr. Exits 1 when the document
+ * has schema errors, 2 on bad usage.
+ */
+import { readFileSync } from 'node:fs';
+import { Viewport } from '../types';
+import { ROOT_PARENT_ID, VIEWPORTS } from '../constants';
+import { calculateLayout } from '../utils/layoutUtils';
+import { parseDocument } from '../utils/dslYaml';
+import { DslDiagnostic, hasErrors } from '../utils/dslValidator';
+
+const USAGE = 'Usage: npm run layout -- <file.yaml> [--viewport <preset|WIDTHxHEIGHT>]...';
+
+class UsageError extends Error {}
+
+const parseViewport = (arg: string): Viewport => {
+  const preset = VIEWPORTS.find((vp) => vp.name.toLowerCase() === arg.toLowerCase());
+  if (preset) return preset;
+  const match = /^(\d+)x(\d+)$/i.exec(arg);
+  if (!match) {
+    throw new UsageError(`Unknown viewport "${arg}". Use one of ${VIEWPORTS.map((vp) => vp.name).join(', ')} or WIDTHxHEIGHT.`);
+  }
+  return { name: arg, width: Number(match[1]), height: Number(match[2]), icon: 'monitor' };
+};
+
+const parseArgs = (args: string[]) => {
+  let file: string | null = null;
+  const viewports: Viewport[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--viewport' || arg === '-v') {
+      if (i + 1 >= args.length) throw new UsageError(`${arg} needs a value.`);
+      viewports.push(parseViewport(args[++i]));
+    } else if (arg.startsWith('--viewport=')) {
+      viewports.push(parseViewport(arg.slice('--viewport='.length)));
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option ${arg}.`);
+    } else if (file === null) {
+      file = arg;
+    } else {
+      throw new UsageError(`Unexpected argument ${arg}.`);
+    }
+  }
+  if (file === null) throw new UsageError('Missing YAML file.');
+  return { file, viewports: viewports.length > 0 ? viewports : VIEWPORTS };
+};
+
+const formatDiagnostic = (file: string, d: DslDiagnostic) => {
+  const position = d.line !== undefined ? `:${d.line}${d.column !== undefined ? `:${d.column}` : ''}` : '';
+  return `${file}${position}: ${d.severity}: ${d.path ? `${d.path}: ` : ''}${d.message}`;
+};
+
+// Engine output is floating point; two decimals keep the JSON stable for diffing in CI
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const main = (): number => {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`${err.message}\n${USAGE}`);
+    return 2;
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(options.file, 'utf8');
+  } catch (err) {
+    console.error(`Cannot read ${options.file}: ${(err as Error).message}`);
+    return 2;
+  }
+
+  const { elements, diagnostics } = parseDocument(source);
+  diagnostics.forEach((d) => console.error(formatDiagnostic(options.file, d)));
+  if (!elements || hasErrors(diagnostics)) return 1;
+
+  const result = options.viewports.map((viewport) => {
+    const layout = calculateLayout(elements, viewport);
+    layout.diagnostics.forEach((d) => console.error(`${options.file}: warning: ${viewport.name}: ${d.elementId}: ${d.message}`));
+    return {
+      viewport: { name: viewport.name, width: viewport.width, height: viewport.height },
+      elements: layout.elements.map((el) => {
+        const rect = el._runtime;
+        return {
+          id: el.id,
+          name: el.name,
+          parent: rect?.parentId && rect.parentId !== ROOT_PARENT_ID ? rect.parentId : null,
+          rect: rect ? { x: round(rect.x), y: round(rect.y), width: round(rect.width), height: round(rect.height) } : null,
+        };
+      }),
+    };
+  });
+  console.log(JSON.stringify(result, null, 2));
+  return 0;
+};
+
+process.exitCode = main();
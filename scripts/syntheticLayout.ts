@@ -0,0 +1,183 @@
+import { LayoutConfig, LayoutElement, LayoutOverride, LayoutValue, UnitType } from '../types';
+
+// Small seeded PRNG (mulberry32), so a seed always yields the same document
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const px = (value: number): LayoutValue => ({ value, unit: UnitType.PX });
+const pct = (value: number, unit: UnitType.PERCENT_PARENT_W | UnitType.PERCENT_PARENT_H): LayoutValue => ({ value, unit });
+
+/**
+ * A document shaped like a long page: full-width sections down the canvas, each holding
+ * cards, a stack or a grid. Cards and their leaves name their parent explicitly; badges
+ * are drawn in canvas coordinates and parented by containment, like free-hand shapes.
+ * Produces exactly `count` elements.
+ */
+export const generateDocument = (count: number, seed = 1): LayoutElement[] => {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const elements: LayoutElement[] = [];
+  // Returns the new id, or null once the document is full
+  const add = (el: Omit<LayoutElement, 'id' | 'name'>, name: string) => {
+    if (elements.length >= count) return null;
+    const id = `el-${elements.length}`;
+    elements.push({ ...el, id, name: `${name} ${elements.length}` });
+    return id;
+  };
+  const leaf = (parent: string, name: string) => add({
+    type: pick(['rect', 'circle'] as const),
+    parent,
+    layout: {
+      x: px(8 + Math.floor(random() * 40)), y: px(8 + Math.floor(random() * 40)),
+      width: px(20 + Math.floor(random() * 60)), height: px(20 + Math.floor(random() * 30)),
+      zIndex: 2, anchorX: 'left', anchorY: 'top', isContainer: false,
+    },
+  }, name);
+
+  const SECTION_HEIGHT = 400;
+  for (let section = 0; elements.length < count; section++) {
+    const top = section * SECTION_HEIGHT;
+    const mode = pick(['absolute', 'absolute', 'stack', 'grid'] as const);
+    const sectionId = add({
+      type: 'rect',
+      layout: {
+        x: px(0), y: px(top), xEnd: px(0), height: px(SECTION_HEIGHT - 20),
+        zIndex: 0, anchorX: 'stretch', anchorY: 'top',
+        ...(mode === 'stack' ? { layoutMode: 'stack' as const, stack: { direction: 'row' as const, gap: px(8), padding: px(16), wrap: true } } : {}),
+        ...(mode === 'grid' ? {
+          layoutMode: 'grid' as const,
+          grid: {
+            columns: [{ value: 1, unit: 'fr' as const }, { value: 1, unit: 'fr' as const }, { value: 200, unit: 'px' as const }],
+            rows: [{ value: 80, unit: 'px' as const }],
+            columnGap: px(8),
+            rowGap: px(8),
+          },
+        } : {}),
+      },
+    }, 'Section');
+    if (!sectionId) break;
+
+    if (mode !== 'absolute') {
+      const items = 4 + Math.floor(random() * 12);
+      for (let i = 0; i < items; i++) leaf(sectionId, 'Item');
+      continue;
+    }
+
+    // Cards on a 4 x 2 grid in percentages of the section
+    for (let card = 0; card < 8; card++) {
+      const cardId = add({
+        type: 'rect',
+        parent: sectionId,
+        layout: {
+          x: pct((card % 4) * 25 + 1, UnitType.PERCENT_PARENT_W), y: pct(Math.floor(card / 4) * 50 + 2, UnitType.PERCENT_PARENT_H),
+          width: pct(23, UnitType.PERCENT_PARENT_W), height: pct(45, UnitType.PERCENT_PARENT_H),
+          zIndex: 1, anchorX: 'left', anchorY: 'top',
+        },
+      }, 'Card');
+      if (!cardId) break;
+      const leaves = 2 + Math.floor(random() * 4);
+      for (let i = 0; i < leaves; i++) leaf(cardId, 'Leaf');
+    }
+
+    const badges = 1 + Math.floor(random() * 3);
+    for (let i = 0; i < badges; i++) {
+      add({
+        type: 'circle',
+        layout: {
+          x: pct(Math.floor(random() * 95), UnitType.PERCENT_PARENT_W), y: px(top + Math.floor(random() * (SECTION_HEIGHT - 60))),
+          width: px(24), height: px(24),
+          zIndex: 3, anchorX: 'left', anchorY: 'top', isContainer: false,
+        },
+      }, 'Badge');
+    }
+  }
+  return elements;
+};
+
+const UNITS = [UnitType.PX, UnitType.PERCENT_PARENT_W, UnitType.PERCENT_PARENT_H, UnitType.VW, UnitType.VH];
+const ANCHORS_X = ['left', 'right', 'center', 'stretch'] as const;
+const ANCHORS_Y = ['top', 'bottom', 'center', 'stretch'] as const;
+
+// Breakpoint ranges around the VIEWPORTS widths, so an override matches some of them
+const OVERRIDE_RANGES = [{ maxWidth: 480 }, { maxWidth: 1024 }, { minWidth: 768, maxWidth: 1280 }, { minWidth: 1440 }];
+
+/**
+ * Random values for one element's layout, mixing every unit (with calc terms), anchor and
+ * layout mode, aspect ratios, min/max constraints, breakpoint overrides, and hidden elements
+ * that may or may not contain others.
+ * `ids` are candidates for an explicit parent, which may well form cycles.
+ */
+export const randomElementPatch = (
+  random: () => number,
+  ids: string[]
+): Pick<LayoutElement, 'layout' | 'parent' | 'overrides' | 'hidden' | 'hiddenContains'> => {
+  const pick = <T,>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const value = (): LayoutValue => ({
+    value: Math.round(random() * 60),
+    unit: pick(UNITS),
+    ...(random() < 0.15 ? { terms: [{ value: Math.round(random() * 40) - 20, unit: pick(UNITS) }] } : {}),
+  });
+  const maybe = (chance: number) => (random() < chance ? value() : undefined);
+  const mode = pick(['absolute', 'absolute', 'absolute', 'stack', 'grid'] as const);
+  const hidden = random() < 0.1;
+  // Values an override may replace; layout modes stay in the base layout with their settings
+  const overrideLayout = (): Partial<LayoutConfig> => {
+    const layout: Partial<LayoutConfig> = {};
+    if (random() < 0.5) layout.x = value();
+    if (random() < 0.5) layout.width = value();
+    if (random() < 0.3) layout.zIndex = Math.floor(random() * 3);
+    if (random() < 0.3) layout.anchorY = pick(ANCHORS_Y);
+    if (random() < 0.2) layout.aspectRatio = 0.5 + random() * 2;
+    if (random() < 0.2) layout.minHeight = value();
+    return layout;
+  };
+  const overrides: LayoutOverride[] = random() < 0.2
+    ? Array.from({ length: 1 + Math.floor(random() * 2) }, () => ({ ...pick(OVERRIDE_RANGES), layout: overrideLayout() }))
+    : [];
+  const anchorX = pick(ANCHORS_X);
+  const anchorY = pick(ANCHORS_Y);
+  return {
+    parent: random() < 0.15 ? pick(ids) : undefined,
+    overrides: overrides.length > 0 ? overrides : undefined,
+    hidden: hidden || undefined,
+    hiddenContains: hidden && random() < 0.5 ? false : undefined,
+    layout: {
+      x: value(), y: value(), width: value(), height: value(),
+      xEnd: anchorX === 'stretch' ? value() : undefined,
+      yEnd: anchorY === 'stretch' ? value() : undefined,
+      aspectRatio: random() < 0.15 ? 0.5 + random() * 2 : undefined,
+      minWidth: maybe(0.1), maxWidth: maybe(0.1), minHeight: maybe(0.1), maxHeight: maybe(0.1),
+      zIndex: Math.floor(random() * 3),
+      anchorX,
+      anchorY,
+      isContainer: random() < 0.8 ? undefined : false,
+      layoutMode: mode,
+      ...(mode === 'stack' ? { stack: { direction: pick(['row', 'column'] as const), gap: value(), wrap: random() < 0.5, crossAlign: pick(['start', 'stretch'] as const) } } : {}),
+      ...(mode === 'grid' ? { grid: { columns: [{ value: 1, unit: 'fr' as const }, { value: 100, unit: 'px' as const }], rows: [{ value: 50, unit: 'px' as const }] } } : {}),
+    },
+  };
+};
+
+/**
+ * A small document of randomly overlapping elements, for checks that want odd cases:
+ * containment ties, cycles, stacks and grids inside each other.
+ */
+export const generateRandomDocument = (seed: number, maxCount = 60): LayoutElement[] => {
+  const random = createRandom(seed);
+  const count = 2 + Math.floor(random() * (maxCount - 1));
+  const ids = Array.from({ length: count }, (_, i) => `e${i}`);
+  return ids.map((id, i) => ({
+    id,
+    name: `Element ${i}`,
+    type: random() < 0.7 ? 'rect' : 'circle',
+    ...randomElementPatch(random, ids),
+  }));
+};
@@ -7,23 +7,103 @@ export enum UnitType {
 }
 
 export type Axis = 'x' | 'y' | 'width' | 'height';
-export type AnchorX = 'left' | 'center' | 'right';
-export type AnchorY = 'top' | 'center' | 'bottom';
+// 'stretch' pins both edges to the parent: `x`/`y` is the start inset,
+// `xEnd`/`yEnd` the end inset, and the size on that axis is derived.
+export type AnchorX = 'left' | 'center' | 'right' | 'stretch';
+export type AnchorY = 'top' | 'center' | 'bottom' | 'stretch';
 
-export interface LayoutValue {
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutTerm {
   value: number;
   unit: UnitType;
 }
 
+export interface LayoutValue extends LayoutTerm {
+  // Extra terms summed with the primary one (CSS calc), e.g. `100%p_w - 32px` is
+  // { value: 100, unit: '%p_w', terms: [{ value: -32, unit: 'px' }] }
+  terms?: LayoutTerm[];
+}
+
+// How a container positions its children. 'absolute' (the default) uses each child's anchors;
+// 'stack' flows the children along one axis, in document order; 'grid' places them in cells.
+export type LayoutMode = 'absolute' | 'stack' | 'grid';
+export type StackDirection = 'row' | 'column';
+export type StackMainAlign = 'start' | 'center' | 'end' | 'space-between';
+export type StackCrossAlign = 'start' | 'center' | 'end' | 'stretch';
+
+export interface StackConfig {
+  direction: StackDirection;
+  gap?: LayoutValue;      // Between items (and between lines when wrapping)
+  padding?: LayoutValue;  // Uniform inset of the content box
+  mainAlign?: StackMainAlign;   // Default 'start'
+  crossAlign?: StackCrossAlign; // Default 'start'
+  wrap?: boolean;
+}
+
+// A grid track: fixed pixels, a percentage of the content box, or a share (fr) of the rest
+export interface GridTrack {
+  value: number;
+  unit: 'px' | '%' | 'fr';
+}
+
+export interface GridConfig {
+  columns: GridTrack[];
+  rows: GridTrack[];
+  columnGap?: LayoutValue;
+  rowGap?: LayoutValue;
+  padding?: LayoutValue;  // Uniform inset of the content box
+}
+
+// Where a grid item sits. 1-based, like CSS grid lines; spans default to 1.
+export interface GridCell {
+  column: number;
+  row: number;
+  columnSpan?: number;
+  rowSpan?: number;
+}
+
 export interface LayoutConfig {
   x: LayoutValue;
   y: LayoutValue;
-  width: LayoutValue;
-  height: LayoutValue;
+  // Omitted on a stretched axis (the size is derived from the insets)
+  width?: LayoutValue;
+  height?: LayoutValue;
+  // End insets, only used on a stretched axis
+  xEnd?: LayoutValue;
+  yEnd?: LayoutValue;
+  // Optional width / height ratio. One dimension is derived from the other (see getDerivedDimension)
+  // and is omitted from the layout.
+  aspectRatio?: number;
+  // Optional size constraints, each with its own unit
+  minWidth?: LayoutValue;
+  maxWidth?: LayoutValue;
+  minHeight?: LayoutValue;
+  maxHeight?: LayoutValue;
   zIndex: number;
   anchorX: AnchorX;
   anchorY: AnchorY;
   isContainer?: boolean; // Controls if this element can be a parent
+  layoutMode?: LayoutMode;
+  stack?: StackConfig;    // Used when layoutMode is 'stack'
+  grid?: GridConfig;      // Used when layoutMode is 'grid'
+  gridCell?: GridCell;    // Placement inside a grid parent (auto-placed when missing)
+}
+
+// A viewport width range, inclusive on both ends. A missing bound is open.
+export interface Breakpoint {
+  minWidth?: number;
+  maxWidth?: number;
+}
+
+// Layout values that replace the base ones while the viewport width is in range
+export interface LayoutOverride extends Breakpoint {
+  layout: Partial<LayoutConfig>;
 }
 
 export interface LayoutElement {
@@ -31,6 +111,18 @@ export interface LayoutElement {
   type: 'rect' | 'circle';
   name: string;
   layout: LayoutConfig;
+  // Explicit parent id ('root' for the canvas). When set it overrides
+  // geometric containment on every viewport.
+  parent?: string;
+  // Per-breakpoint overrides of `layout`, applied in order when they match the viewport
+  overrides?: LayoutOverride[];
+  // A locked element cannot be picked or dragged on the canvas, but still contains others.
+  locked?: boolean;
+  // A hidden element is not drawn in the editor or the preview, nor is anything nested in it.
+  hidden?: boolean;
+  // Whether a hidden element still contains others by position (default true). false lays the
+  // document out as if it were not a container; an explicit `parent` still points at it.
+  hiddenContains?: boolean;
   // Computed values for the editor runtime (absolute pixels)
   // These are not saved to YAML directly, but derived from it or used to update it
   _runtime?: {
@@ -54,6 +146,7 @@ export interface DragState {
   isResizing: boolean;
   startX: number;
   startY: number;
-  initialRect: { x: number; y: number; width: number; height: number };
+  initialRect: Rect; // Bounding box of everything being dragged
+  initialRects: Record<string, Rect>; // Per-element start rects, keyed by id
   handle?: string; // n, s, e, w, ne, nw, se, sw
 }
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { Breakpoint, LayoutConfig, LayoutElement, LayoutOverride, Viewport } from '../types';
+
+type LayoutPatch = Partial<LayoutConfig>;
+
+export const matchesBreakpoint = (bp: Breakpoint, width: number): boolean =>
+  (bp.minWidth === undefined || width >= bp.minWidth) &&
+  (bp.maxWidth === undefined || width <= bp.maxWidth);
+
+export const isSameBreakpoint = (a: Breakpoint, b: Breakpoint): boolean =>
+  a.minWidth === b.minWidth && a.maxWidth === b.maxWidth;
+
+// e.g. `≤767px`, `768–1279px`, `≥1920px`
+export const formatBreakpoint = (bp: Breakpoint): string => {
+  if (bp.minWidth !== undefined && bp.maxWidth !== undefined) return `${bp.minWidth}–${bp.maxWidth}px`;
+  if (bp.minWidth !== undefined) return `≥${bp.minWidth}px`;
+  if (bp.maxWidth !== undefined) return `≤${bp.maxWidth}px`;
+  return 'All widths';
+};
+
+const activeOverrides = (el: LayoutElement, width: number): LayoutOverride[] =>
+  (el.overrides || []).filter((o) => matchesBreakpoint(o, width));
+
+/**
+ * The layout an element uses on a viewport: its base layout with every matching
+ * override applied on top, in document order (later overrides win).
+ */
+export const getEffectiveLayout = (el: LayoutElement, viewport: Viewport): LayoutConfig => {
+  const active = activeOverrides(el, viewport.width);
+  if (active.length === 0) return el.layout;
+  return active.reduce<LayoutConfig>((layout, o) => ({ ...layout, ...o.layout }), el.layout);
+};
+
+/**
+ * The document as the editor sees it on a viewport: every `layout` replaced by its effective layout.
+ * Edits made on these copies are written back with applyEditedLayout.
+ */
+export const withEffectiveLayouts = (elements: LayoutElement[], viewport: Viewport): LayoutElement[] =>
+  elements.map((el) => (el.overrides ? { ...el, layout: getEffectiveLayout(el, viewport) } : el));
+
+/**
+ * Layout keys that an override supplies on this viewport, i.e. that differ from the base on purpose.
+ */
+export const getOverriddenKeys = (el: LayoutElement, viewport: Viewport): (keyof LayoutConfig)[] => {
+  const keys = new Set<keyof LayoutConfig>();
+  activeOverrides(el, viewport.width).forEach((o) => {
+    (Object.keys(o.layout) as (keyof LayoutConfig)[]).forEach((key) => keys.add(key));
+  });
+  return [...keys];
+};
+
+const setKey = (layout: LayoutPatch, key: keyof LayoutConfig, value: unknown) => {
+  if (value === undefined) delete layout[key];
+  else (layout as Record<string, unknown>)[key] = value;
+};
+
+// Overrides left without any values are dropped
+const pruneOverrides = (overrides: LayoutOverride[]): LayoutOverride[] | undefined => {
+  const kept = overrides.filter((o) => Object.keys(o.layout).length > 0);
+  return kept.length > 0 ? kept : undefined;
+};
+
+const withOverrides = (el: LayoutElement, layout: LayoutConfig, overrides: LayoutOverride[] | undefined): LayoutElement => {
+  const { overrides: _previous, ...rest } = el;
+  return overrides ? { ...rest, layout, overrides } : { ...rest, layout };
+};
+
+/**
+ * Writes layout values into the breakpoint being edited.
+ * With a breakpoint the values go into its override (created on first use), and `undefined`
+ * removes a key from it so the base value shows through again. Without one they go into the
+ * base layout, except for keys an active override supplies on this viewport: those are edited
+ * in that override, so an edit never ends up hidden behind one.
+ */
+export const writeLayout = (
+  el: LayoutElement,
+  patch: LayoutPatch,
+  breakpoint: Breakpoint | null,
+  viewport: Viewport
+): LayoutElement => {
+  // Fresh objects throughout: the previous element may still be referenced by undo history
+  const layout = { ...el.layout };
+  const overrides = (el.overrides || []).map((o) => ({ ...o, layout: { ...o.layout } }));
+
+  if (breakpoint) {
+    let target = overrides.find((o) => isSameBreakpoint(o, breakpoint));
+    if (!target) {
+      target = { ...breakpoint, layout: {} };
+      overrides.push(target);
+    }
+    (Object.keys(patch) as (keyof LayoutConfig)[]).forEach((key) => setKey(target!.layout, key, patch[key]));
+    return withOverrides(el, layout, pruneOverrides(overrides));
+  }
+
+  const active = overrides.filter((o) => matchesBreakpoint(o, viewport.width));
+  (Object.keys(patch) as (keyof LayoutConfig)[]).forEach((key) => {
+    const supplier = [...active].reverse().find((o) => key in o.layout);
+    setKey(supplier ? supplier.layout : layout, key, patch[key]);
+  });
+  return withOverrides(el, layout as LayoutConfig, pruneOverrides(overrides));
+};
+
+/**
+ * Removes overridden values on this viewport, so the base layout applies again.
+ * Without `keys` every active override is cleared.
+ */
+export const resetOverrides = (el: LayoutElement, viewport: Viewport, keys?: (keyof LayoutConfig)[]): LayoutElement => {
+  if (!el.overrides) return el;
+  const overrides = el.overrides.map((o) => {
+    if (!matchesBreakpoint(o, viewport.width)) return o;
+    if (!keys) return { ...o, layout: {} };
+    const layout = { ...o.layout };
+    keys.forEach((key) => delete layout[key]);
+    return { ...o, layout };
+  });
+  return withOverrides(el, el.layout, pruneOverrides(overrides));
+};
+
+/**
+ * Writes back an element edited in its effective form (see withEffectiveLayouts): only the layout
+ * values that changed are written, into the breakpoint being edited. Non-layout fields such as
+ * `parent` and `_runtime` are taken from the edited copy.
+ */
+export const applyEditedLayout = (
+  original: LayoutElement,
+  edited: LayoutElement,
+  breakpoint: Breakpoint | null,
+  viewport: Viewport
+): LayoutElement => {
+  const before = getEffectiveLayout(original, viewport);
+  const patch: LayoutPatch = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(edited.layout)] as (keyof LayoutConfig)[]);
+  keys.forEach((key) => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(edited.layout[key])) {
+      (patch as Record<string, unknown>)[key] = edited.layout[key];
+    }
+  });
+
+  const written = Object.keys(patch).length > 0 ? writeLayout(original, patch, breakpoint, viewport) : original;
+  const { overrides: _overrides, ...fields } = edited;
+  return withOverrides(fields, written.layout, written.overrides);
+};
+
+/**
+ * Splits the width axis into the ranges where the same set of overrides applies, in ascending
+ * order. A document without overrides has a single unbounded range. Used by exporters that
+ * switch whole layouts on the screen width.
+ */
+export const getBreakpointSegments = (elements: LayoutElement[]): Breakpoint[] => {
+  const bounds = new Set<number>();
+  elements.forEach((el) => (el.overrides || []).forEach((o) => {
+    if (o.minWidth !== undefined) bounds.add(o.minWidth);
+    if (o.maxWidth !== undefined) bounds.add(o.maxWidth + 1);
+  }));
+  const sorted = [...bounds].sort((a, b) => a - b);
+  const segments: Breakpoint[] = [];
+  let start: number | undefined;
+  sorted.forEach((bound) => {
+    segments.push(start === undefined ? { maxWidth: bound - 1 } : { minWidth: start, maxWidth: bound - 1 });
+    start = bound;
+  });
+  segments.push(start === undefined ? {} : { minWidth: start });
+  return segments;
+};
@@ -0,0 +1,219 @@
+import { GridTrack, LayoutConfig, LayoutElement, LayoutTerm, LayoutValue, UnitType, Viewport } from '../types';
+import { getDerivedDimension, getGridConfig, getStackConfig } from './layoutUtils';
+
+// CSS declarations keyed by camelCase property name, as in a React style object
+export type CssDeclarations = Record<string, string | undefined>;
+
+export interface CssUnitOptions {
+  // Resolve vw/vh to pixels of this viewport. The editor preview is a box, not the browser window.
+  viewport?: Viewport;
+}
+
+// Which parent dimension a bare `%` resolves against for a property; null where it doesn't
+// refer to the parent at all (translate() percentages are the element's own size)
+type PercentBasis = 'width' | 'height' | null;
+
+// Number of CSS units for a term, as a calc product where needed ("0.5 * (100cqw - 8px)")
+const getCssTerm = (val: LayoutTerm, basis: PercentBasis, options: CssUnitOptions) => {
+  const { viewport } = options;
+  if (val.unit === UnitType.PX) return `${val.value}px`;
+  // Same-axis percentages map to CSS %. Anything else uses container query units, which
+  // resolve against the parent box on a fixed axis: every element is a size container.
+  if (val.unit === UnitType.PERCENT_PARENT_W) return basis === 'width' ? `${val.value}%` : `${val.value}cqw`;
+  if (val.unit === UnitType.PERCENT_PARENT_H) return basis === 'height' ? `${val.value}%` : `${val.value}cqh`;
+  if (val.unit === UnitType.VW) return viewport ? `${round(viewport.width * val.value / 100)}px` : `${val.value}vw`;
+  if (val.unit === UnitType.VH) return viewport ? `${round(viewport.height * val.value / 100)}px` : `${val.value}vh`;
+  return '0px';
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const formatCss = (val: LayoutValue, basis: PercentBasis, options: CssUnitOptions) => {
+  if (!val.terms || val.terms.length === 0) return getCssTerm(val, basis, options);
+  const rest = val.terms
+    .map(t => `${t.value < 0 ? '-' : '+'} ${getCssTerm({ ...t, value: Math.abs(t.value) }, basis, options)}`)
+    .join(' ');
+  return `calc(${getCssTerm(val, basis, options)} ${rest})`;
+};
+
+/**
+ * A layout value as a CSS length for a property resolved against the parent's `axis`.
+ * Calc values become CSS calc(), e.g. calc(100% - 32px). Percentages of the other parent
+ * dimension become cqw/cqh, so the value needs the parent to be a size container.
+ */
+export const getCssValue = (val: LayoutValue, axis: 'x' | 'y', options: CssUnitOptions = {}) =>
+  formatCss(val, axis === 'x' ? 'width' : 'height', options);
+
+// Offsets inside translate(), where a bare % would be the element's own size
+const getCssOffset = (val: LayoutValue, options: CssUnitOptions) => formatCss(val, null, options);
+
+type DeclaredSize = Partial<Record<'width' | 'height', LayoutValue>>;
+
+/**
+ * Padding and gap percentages refer to the container itself (see getContentRect), while CSS
+ * resolves them against the parent. A declared size on that axis lets us restate the
+ * percentage in parent terms; otherwise the parent's size is the closest CSS can get.
+ */
+const getSelfRelativeValue = (val: LayoutValue, size: DeclaredSize, options: CssUnitOptions) => {
+  const parts = [val, ...(val.terms || [])].map((t) => {
+    const sign = t.value < 0 ? '-' : '+';
+    const dim = t.unit === UnitType.PERCENT_PARENT_W ? 'width' : t.unit === UnitType.PERCENT_PARENT_H ? 'height' : null;
+    if (!dim || !size[dim]) return { sign, text: getCssTerm({ ...t, value: Math.abs(t.value) }, null, options) };
+    const factor = Math.round(Math.abs(t.value) * 1e4) / 1e6;
+    return { sign, text: `${factor} * ${formatCss(size[dim], null, options)}` };
+  });
+  if (parts.length === 1 && parts[0].sign === '+' && !parts[0].text.includes('*')) return parts[0].text;
+  const [first, ...rest] = parts;
+  return `calc(${first.sign === '-' ? '-1 * ' : ''}${first.text}${rest.map(p => ` ${p.sign} ${p.text}`).join('')})`;
+};
+
+// The sizes that CSS takes verbatim from the layout: not stretched, derived, clamped or
+// overridden by the parent's stack/grid
+const getDeclaredSize = (layout: LayoutConfig, parent?: LayoutElement): DeclaredSize => {
+  const parentStack = parent ? getStackConfig(parent.layout) : null;
+  if (parent && getGridConfig(parent.layout)) return {};
+  const declared = (dim: 'width' | 'height') => {
+    const stretched = dim === 'width' ? layout.anchorX === 'stretch' : layout.anchorY === 'stretch';
+    const clamped = dim === 'width' ? layout.minWidth || layout.maxWidth : layout.minHeight || layout.maxHeight;
+    const crossStretched = parentStack?.crossAlign === 'stretch' && (parentStack.direction === 'row') === (dim === 'height');
+    if (stretched || clamped || crossStretched || getDerivedDimension(layout) === dim) return undefined;
+    return layout[dim];
+  };
+  return { width: declared('width'), height: declared('height') };
+};
+
+const FLEX_ALIGN = { start: 'flex-start', center: 'center', end: 'flex-end', 'space-between': 'space-between', stretch: 'stretch' };
+
+const formatTracks = (list: GridTrack[]) => list.map(t => `${t.value}${t.unit}`).join(' ');
+
+/**
+ * Children of an element in DOM order. Stack and grid items keep document order, which is
+ * their flow order; absolutely positioned children stack by z-index.
+ */
+export const getCssChildren = (element: LayoutElement, allElements: LayoutElement[]): LayoutElement[] => {
+  const children = allElements.filter(e => e._runtime?.parentId === element.id);
+  if (!getStackConfig(element.layout) && !getGridConfig(element.layout)) {
+    children.sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0));
+  }
+  return children;
+};
+
+/**
+ * The CSS that reproduces an element's layout inside its parent's box: absolute anchoring,
+ * or flex/grid item rules when the parent is a stack or grid. `parent` is the element's
+ * logical parent (undefined for the canvas).
+ */
+export const getLayoutStyle = (element: LayoutElement, parent?: LayoutElement, options: CssUnitOptions = {}): CssDeclarations => {
+  const { layout } = element;
+  const stack = getStackConfig(layout);
+  const grid = getGridConfig(layout);
+  const parentStack = parent ? getStackConfig(parent.layout) : null;
+  const parentGrid = parent ? getGridConfig(parent.layout) : null;
+  const ownSize = stack || grid ? getDeclaredSize(layout, parent) : {};
+
+  const style: CssDeclarations = {
+    position: 'absolute',
+    // Stretched and ratio-derived axes have no size; it follows from the insets / aspect-ratio
+    width: layout.width && getCssValue(layout.width, 'x', options),
+    height: layout.height && getCssValue(layout.height, 'y', options),
+    aspectRatio: getDerivedDimension(layout) ? String(layout.aspectRatio) : undefined,
+    minWidth: layout.minWidth && getCssValue(layout.minWidth, 'x', options),
+    maxWidth: layout.maxWidth && getCssValue(layout.maxWidth, 'x', options),
+    minHeight: layout.minHeight && getCssValue(layout.minHeight, 'y', options),
+    maxHeight: layout.maxHeight && getCssValue(layout.maxHeight, 'y', options),
+    // Hidden boxes keep their place, so stack and grid siblings stay where the engine put them
+    visibility: element.hidden ? 'hidden' : undefined,
+  };
+
+  // Stack container: flexbox
+  if (stack) {
+    style.display = 'flex';
+    style.flexDirection = stack.direction;
+    style.justifyContent = FLEX_ALIGN[stack.mainAlign || 'start'];
+    style.alignItems = FLEX_ALIGN[stack.crossAlign || 'start'];
+    style.flexWrap = stack.wrap ? 'wrap' : 'nowrap';
+    style.alignContent = 'flex-start';
+    if (stack.gap) style.gap = getSelfRelativeValue(stack.gap, ownSize, options);
+    if (stack.padding) style.padding = getSelfRelativeValue(stack.padding, ownSize, options);
+  }
+
+  // Grid container: CSS grid. Implicit rows repeat the last row, or share the height
+  // when there are no rows, as in the layout engine.
+  if (grid) {
+    style.display = 'grid';
+    style.gridTemplateColumns = formatTracks(grid.columns);
+    if (grid.rows.length > 0) {
+      style.gridTemplateRows = formatTracks(grid.rows);
+      style.gridAutoRows = formatTracks(grid.rows.slice(-1));
+    } else {
+      style.gridAutoRows = '1fr';
+    }
+    style.alignItems = 'stretch';
+    style.justifyContent = 'stretch';
+    style.alignContent = 'stretch';
+    if (grid.columnGap) style.columnGap = getSelfRelativeValue(grid.columnGap, ownSize, options);
+    if (grid.rowGap) style.rowGap = getSelfRelativeValue(grid.rowGap, ownSize, options);
+    if (grid.padding) style.padding = getSelfRelativeValue(grid.padding, ownSize, options);
+  }
+
+  // Grid item: fills its cell area
+  if (parentGrid) {
+    const cell = layout.gridCell;
+    style.position = 'relative';
+    style.width = undefined;
+    style.height = undefined;
+    style.aspectRatio = undefined;
+    if (cell) {
+      style.gridColumn = `${cell.column} / span ${cell.columnSpan || 1}`;
+      style.gridRow = `${cell.row} / span ${cell.rowSpan || 1}`;
+    }
+    return style;
+  }
+
+  // Stack item: placed by the parent's flexbox, own anchors are ignored
+  if (parentStack) {
+    style.position = 'relative';
+    style.flexShrink = '0';
+    // Stretched axes fill the stack's content box
+    if (layout.anchorX === 'stretch') style.width = '100%';
+    if (layout.anchorY === 'stretch') style.height = '100%';
+    // crossAlign: stretch sizes the cross axis, as in the layout engine
+    if (parentStack.crossAlign === 'stretch') {
+      if (parentStack.direction === 'row') style.height = undefined;
+      else style.width = undefined;
+    }
+    return style;
+  }
+
+  // Anchoring
+  const { x, y, xEnd, yEnd, anchorX, anchorY } = layout;
+
+  // X Axis
+  if (anchorX === 'stretch') {
+    style.left = getCssValue(x, 'x', options);
+    style.right = xEnd ? getCssValue(xEnd, 'x', options) : '0px';
+  } else if (anchorX === 'left') {
+    style.left = getCssValue(x, 'x', options);
+  } else if (anchorX === 'right') {
+    style.right = getCssValue(x, 'x', options);
+  } else if (anchorX === 'center') {
+    style.left = '50%';
+    style.transform = `translateX(calc(-50% + ${getCssOffset(x, options)}))`;
+  }
+
+  // Y Axis
+  if (anchorY === 'stretch') {
+    style.top = getCssValue(y, 'y', options);
+    style.bottom = yEnd ? getCssValue(yEnd, 'y', options) : '0px';
+  } else if (anchorY === 'top') {
+    style.top = getCssValue(y, 'y', options);
+  } else if (anchorY === 'bottom') {
+    style.bottom = getCssValue(y, 'y', options);
+  } else if (anchorY === 'center') {
+    style.top = '50%';
+    const xTrans = style.transform ? style.transform : '';
+    style.transform = `${xTrans} translateY(calc(-50% + ${getCssOffset(y, options)}))`;
+  }
+
+  return style;
+};
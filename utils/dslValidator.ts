@@ -0,0 +1,408 @@
+import { UnitType } from '../types';
+import { ROOT_PARENT_ID } from '../constants';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface DslDiagnostic {
+  // JSON-style path into the document, e.g. `[3].layout.x.unit` ('' for the document itself)
+  path: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  // 1-based source position, only known for YAML syntax errors
+  line?: number;
+  column?: number;
+}
+
+const UNIT_VALUES = Object.values(UnitType) as string[];
+const ANCHOR_X_VALUES = ['left', 'center', 'right', 'stretch'];
+const ANCHOR_Y_VALUES = ['top', 'center', 'bottom', 'stretch'];
+const ELEMENT_TYPES = ['rect', 'circle'];
+const LAYOUT_MODES = ['absolute', 'stack', 'grid'];
+const GRID_TRACK_UNITS = ['px', '%', 'fr'];
+const STACK_DIRECTIONS = ['row', 'column'];
+const STACK_MAIN_ALIGNS = ['start', 'center', 'end', 'space-between'];
+const STACK_CROSS_ALIGNS = ['start', 'center', 'end', 'stretch'];
+
+const ELEMENT_KEYS = ['id', 'type', 'name', 'layout', 'parent', 'overrides', 'locked', 'hidden', 'hiddenContains'];
+const OVERRIDE_KEYS = ['minWidth', 'maxWidth', 'layout'];
+const LAYOUT_KEYS = [
+  'x', 'y', 'width', 'height', 'xEnd', 'yEnd',
+  'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'aspectRatio',
+  'zIndex', 'anchorX', 'anchorY', 'isContainer', 'layoutMode', 'stack', 'grid', 'gridCell'
+];
+const STACK_KEYS = ['direction', 'gap', 'padding', 'mainAlign', 'crossAlign', 'wrap'];
+const GRID_KEYS = ['columns', 'rows', 'columnGap', 'rowGap', 'padding'];
+const GRID_TRACK_KEYS = ['value', 'unit'];
+const GRID_CELL_KEYS = ['column', 'row', 'columnSpan', 'rowSpan'];
+const LAYOUT_VALUE_KEYS = ['value', 'unit', 'terms'];
+const LAYOUT_TERM_KEYS = ['value', 'unit'];
+
+const isPlainObject = (val: unknown): val is Record<string, unknown> =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+const isFiniteNumber = (val: unknown): val is number =>
+  typeof val === 'number' && Number.isFinite(val);
+
+const describe = (val: unknown): string => {
+  if (val === null) return 'null';
+  if (Array.isArray(val)) return 'a list';
+  if (typeof val === 'string') return `"${val}"`;
+  return typeof val === 'object' ? 'a mapping' : String(val);
+};
+
+const checkUnknownKeys = (
+  obj: Record<string, unknown>,
+  known: string[],
+  path: string,
+  out: DslDiagnostic[]
+) => {
+  Object.keys(obj).forEach((key) => {
+    if (!known.includes(key)) {
+      out.push({ path: `${path}.${key}`, severity: 'warning', message: `Unknown property "${key}" is ignored` });
+    }
+  });
+};
+
+const validateLayoutTerm = (val: Record<string, unknown>, path: string, out: DslDiagnostic[]) => {
+  if (!isFiniteNumber(val.value)) {
+    out.push({ path: `${path}.value`, severity: 'error', message: `Expected a finite number, got ${describe(val.value)}` });
+  }
+  if (typeof val.unit !== 'string' || !UNIT_VALUES.includes(val.unit)) {
+    out.push({
+      path: `${path}.unit`,
+      severity: 'error',
+      message: `Unknown unit ${describe(val.unit)} (expected one of ${UNIT_VALUES.join(', ')})`
+    });
+  }
+};
+
+const validateLayoutValue = (val: unknown, path: string, out: DslDiagnostic[]) => {
+  if (val === undefined) {
+    out.push({ path, severity: 'error', message: 'Missing required value' });
+    return;
+  }
+  if (!isPlainObject(val)) {
+    out.push({ path, severity: 'error', message: `Expected { value, unit }, got ${describe(val)}` });
+    return;
+  }
+  validateLayoutTerm(val, path, out);
+
+  if (val.terms !== undefined) {
+    if (!Array.isArray(val.terms)) {
+      out.push({ path: `${path}.terms`, severity: 'error', message: `Expected a list of { value, unit }, got ${describe(val.terms)}` });
+    } else {
+      val.terms.forEach((term, i) => {
+        const termPath = `${path}.terms[${i}]`;
+        if (!isPlainObject(term)) {
+          out.push({ path: termPath, severity: 'error', message: `Expected { value, unit }, got ${describe(term)}` });
+          return;
+        }
+        validateLayoutTerm(term, termPath, out);
+        checkUnknownKeys(term, LAYOUT_TERM_KEYS, termPath, out);
+      });
+    }
+  }
+  checkUnknownKeys(val, LAYOUT_VALUE_KEYS, path, out);
+};
+
+const checkEnum = (val: unknown, allowed: string[], path: string, what: string, out: DslDiagnostic[]) => {
+  if (val !== undefined && !allowed.includes(val as string)) {
+    out.push({ path, severity: 'error', message: `Invalid ${what} ${describe(val)} (expected one of ${allowed.join(', ')})` });
+  }
+};
+
+const validateStack = (stack: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!isPlainObject(stack)) {
+    out.push({ path, severity: 'error', message: `Expected a stack mapping, got ${describe(stack)}` });
+    return;
+  }
+  if (stack.direction === undefined) {
+    out.push({ path: `${path}.direction`, severity: 'error', message: 'Missing required value' });
+  }
+  checkEnum(stack.direction, STACK_DIRECTIONS, `${path}.direction`, 'direction', out);
+  checkEnum(stack.mainAlign, STACK_MAIN_ALIGNS, `${path}.mainAlign`, 'alignment', out);
+  checkEnum(stack.crossAlign, STACK_CROSS_ALIGNS, `${path}.crossAlign`, 'alignment', out);
+  (['gap', 'padding'] as const).forEach((key) => {
+    if (stack[key] !== undefined) validateLayoutValue(stack[key], `${path}.${key}`, out);
+  });
+  if (stack.wrap !== undefined && typeof stack.wrap !== 'boolean') {
+    out.push({ path: `${path}.wrap`, severity: 'error', message: `Expected true or false, got ${describe(stack.wrap)}` });
+  }
+  checkUnknownKeys(stack, STACK_KEYS, path, out);
+};
+
+const validateGrid = (grid: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!isPlainObject(grid)) {
+    out.push({ path, severity: 'error', message: `Expected a grid mapping, got ${describe(grid)}` });
+    return;
+  }
+  (['columns', 'rows'] as const).forEach((key) => {
+    const tracks = grid[key];
+    if (!Array.isArray(tracks)) {
+      out.push({ path: `${path}.${key}`, severity: 'error', message: `Expected a list of { value, unit } tracks, got ${describe(tracks)}` });
+      return;
+    }
+    tracks.forEach((track, i) => {
+      const trackPath = `${path}.${key}[${i}]`;
+      if (!isPlainObject(track)) {
+        out.push({ path: trackPath, severity: 'error', message: `Expected { value, unit }, got ${describe(track)}` });
+        return;
+      }
+      if (!isFiniteNumber(track.value) || track.value < 0) {
+        out.push({ path: `${trackPath}.value`, severity: 'error', message: `Expected a non-negative number, got ${describe(track.value)}` });
+      }
+      checkEnum(track.unit, GRID_TRACK_UNITS, `${trackPath}.unit`, 'track unit', out);
+      if (track.unit === undefined) out.push({ path: `${trackPath}.unit`, severity: 'error', message: 'Missing required value' });
+      checkUnknownKeys(track, GRID_TRACK_KEYS, trackPath, out);
+    });
+  });
+  if (Array.isArray(grid.columns) && grid.columns.length === 0) {
+    out.push({ path: `${path}.columns`, severity: 'error', message: 'A grid needs at least one column' });
+  }
+  (['columnGap', 'rowGap', 'padding'] as const).forEach((key) => {
+    if (grid[key] !== undefined) validateLayoutValue(grid[key], `${path}.${key}`, out);
+  });
+  checkUnknownKeys(grid, GRID_KEYS, path, out);
+};
+
+const validateGridCell = (cell: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!isPlainObject(cell)) {
+    out.push({ path, severity: 'error', message: `Expected { column, row }, got ${describe(cell)}` });
+    return;
+  }
+  GRID_CELL_KEYS.forEach((key) => {
+    const required = key === 'column' || key === 'row';
+    if (cell[key] === undefined) {
+      if (required) out.push({ path: `${path}.${key}`, severity: 'error', message: 'Missing required value' });
+    } else if (!Number.isInteger(cell[key]) || (cell[key] as number) < 1) {
+      out.push({ path: `${path}.${key}`, severity: 'error', message: `Expected a whole number from 1, got ${describe(cell[key])}` });
+    }
+  });
+  checkUnknownKeys(cell, GRID_CELL_KEYS, path, out);
+};
+
+const validateLayout = (layout: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!isPlainObject(layout)) {
+    out.push({ path, severity: 'error', message: `Expected a layout mapping, got ${describe(layout)}` });
+    return;
+  }
+
+  (['x', 'y'] as const).forEach((axis) => {
+    validateLayoutValue(layout[axis], `${path}.${axis}`, out);
+  });
+
+  // Mirrors getDerivedDimension: height follows width unless only the vertical axis is stretched
+  let derived: 'width' | 'height' | null = null;
+  if (layout.aspectRatio !== undefined) {
+    if (!isFiniteNumber(layout.aspectRatio) || layout.aspectRatio <= 0) {
+      out.push({ path: `${path}.aspectRatio`, severity: 'error', message: `Expected a positive number, got ${describe(layout.aspectRatio)}` });
+    } else if (layout.anchorX === 'stretch' && layout.anchorY === 'stretch') {
+      out.push({ path: `${path}.aspectRatio`, severity: 'warning', message: 'aspectRatio is ignored while both axes are stretch' });
+    } else {
+      derived = layout.anchorY === 'stretch' ? 'width' : 'height';
+    }
+  }
+
+  // A stretched axis takes its size from the end inset instead of width/height
+  ([['anchorX', 'width', 'xEnd'], ['anchorY', 'height', 'yEnd']] as const).forEach(([anchorKey, sizeKey, endKey]) => {
+    if (layout[anchorKey] === 'stretch') {
+      validateLayoutValue(layout[endKey], `${path}.${endKey}`, out);
+      if (layout[sizeKey] !== undefined) {
+        out.push({ path: `${path}.${sizeKey}`, severity: 'warning', message: `${sizeKey} is ignored while ${anchorKey} is stretch` });
+      }
+      return;
+    }
+
+    if (derived === sizeKey) {
+      if (layout[sizeKey] !== undefined) {
+        out.push({ path: `${path}.${sizeKey}`, severity: 'warning', message: `${sizeKey} is ignored, it follows aspectRatio` });
+      }
+    } else {
+      validateLayoutValue(layout[sizeKey], `${path}.${sizeKey}`, out);
+    }
+    if (layout[endKey] !== undefined) {
+      out.push({ path: `${path}.${endKey}`, severity: 'warning', message: `${endKey} is only used when ${anchorKey} is stretch` });
+    }
+  });
+
+  (['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const).forEach((key) => {
+    if (layout[key] !== undefined) validateLayoutValue(layout[key], `${path}.${key}`, out);
+  });
+  (['Width', 'Height'] as const).forEach((dim) => {
+    const min = layout[`min${dim}`];
+    const max = layout[`max${dim}`];
+    // Only comparable without a viewport when both use the same unit
+    if (
+      isPlainObject(min) && isPlainObject(max) &&
+      min.unit === max.unit && !min.terms && !max.terms &&
+      isFiniteNumber(min.value) && isFiniteNumber(max.value) &&
+      min.value > max.value
+    ) {
+      out.push({ path: `${path}.min${dim}`, severity: 'warning', message: `min${dim} is larger than max${dim}; min wins` });
+    }
+  });
+
+  if (layout.zIndex === undefined) {
+    out.push({ path: `${path}.zIndex`, severity: 'warning', message: 'Missing zIndex, defaulting to 0' });
+  } else if (!isFiniteNumber(layout.zIndex)) {
+    out.push({ path: `${path}.zIndex`, severity: 'error', message: `Expected a number, got ${describe(layout.zIndex)}` });
+  }
+
+  if (layout.anchorX !== undefined && !ANCHOR_X_VALUES.includes(layout.anchorX as string)) {
+    out.push({
+      path: `${path}.anchorX`,
+      severity: 'error',
+      message: `Invalid anchor ${describe(layout.anchorX)} (expected one of ${ANCHOR_X_VALUES.join(', ')})`
+    });
+  }
+  if (layout.anchorY !== undefined && !ANCHOR_Y_VALUES.includes(layout.anchorY as string)) {
+    out.push({
+      path: `${path}.anchorY`,
+      severity: 'error',
+      message: `Invalid anchor ${describe(layout.anchorY)} (expected one of ${ANCHOR_Y_VALUES.join(', ')})`
+    });
+  }
+
+  if (layout.isContainer !== undefined && typeof layout.isContainer !== 'boolean') {
+    out.push({ path: `${path}.isContainer`, severity: 'error', message: `Expected true or false, got ${describe(layout.isContainer)}` });
+  }
+
+  checkEnum(layout.layoutMode, LAYOUT_MODES, `${path}.layoutMode`, 'layout mode', out);
+  // Stack/grid settings are kept while in another mode, so they are checked either way
+  if (layout.stack !== undefined) validateStack(layout.stack, `${path}.stack`, out);
+  if (layout.grid !== undefined) validateGrid(layout.grid, `${path}.grid`, out);
+  if (layout.gridCell !== undefined) validateGridCell(layout.gridCell, `${path}.gridCell`, out);
+
+  checkUnknownKeys(layout, LAYOUT_KEYS, path, out);
+};
+
+// An override only holds the values it changes, so each one is checked on its own
+const validateLayoutPatch = (layout: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!isPlainObject(layout)) {
+    out.push({ path, severity: 'error', message: `Expected a layout mapping, got ${describe(layout)}` });
+    return;
+  }
+  (['x', 'y', 'width', 'height', 'xEnd', 'yEnd', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const).forEach((key) => {
+    if (layout[key] !== undefined) validateLayoutValue(layout[key], `${path}.${key}`, out);
+  });
+  if (layout.aspectRatio !== undefined && (!isFiniteNumber(layout.aspectRatio) || layout.aspectRatio <= 0)) {
+    out.push({ path: `${path}.aspectRatio`, severity: 'error', message: `Expected a positive number, got ${describe(layout.aspectRatio)}` });
+  }
+  if (layout.zIndex !== undefined && !isFiniteNumber(layout.zIndex)) {
+    out.push({ path: `${path}.zIndex`, severity: 'error', message: `Expected a number, got ${describe(layout.zIndex)}` });
+  }
+  checkEnum(layout.anchorX, ANCHOR_X_VALUES, `${path}.anchorX`, 'anchor', out);
+  checkEnum(layout.anchorY, ANCHOR_Y_VALUES, `${path}.anchorY`, 'anchor', out);
+  if (layout.isContainer !== undefined && typeof layout.isContainer !== 'boolean') {
+    out.push({ path: `${path}.isContainer`, severity: 'error', message: `Expected true or false, got ${describe(layout.isContainer)}` });
+  }
+  checkEnum(layout.layoutMode, LAYOUT_MODES, `${path}.layoutMode`, 'layout mode', out);
+  if (layout.stack !== undefined) validateStack(layout.stack, `${path}.stack`, out);
+  if (layout.grid !== undefined) validateGrid(layout.grid, `${path}.grid`, out);
+  if (layout.gridCell !== undefined) validateGridCell(layout.gridCell, `${path}.gridCell`, out);
+  checkUnknownKeys(layout, LAYOUT_KEYS, path, out);
+};
+
+const validateOverrides = (overrides: unknown, path: string, out: DslDiagnostic[]) => {
+  if (!Array.isArray(overrides)) {
+    out.push({ path, severity: 'error', message: `Expected a list of overrides, got ${describe(overrides)}` });
+    return;
+  }
+  overrides.forEach((override, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isPlainObject(override)) {
+      out.push({ path: itemPath, severity: 'error', message: `Expected { minWidth, maxWidth, layout }, got ${describe(override)}` });
+      return;
+    }
+    (['minWidth', 'maxWidth'] as const).forEach((key) => {
+      const val = override[key];
+      if (val !== undefined && (!isFiniteNumber(val) || val < 0)) {
+        out.push({ path: `${itemPath}.${key}`, severity: 'error', message: `Expected a viewport width in px, got ${describe(val)}` });
+      }
+    });
+    const { minWidth, maxWidth } = override;
+    if (minWidth === undefined && maxWidth === undefined) {
+      out.push({ path: itemPath, severity: 'warning', message: 'Override without minWidth or maxWidth applies on every viewport' });
+    } else if (isFiniteNumber(minWidth) && isFiniteNumber(maxWidth) && minWidth > maxWidth) {
+      out.push({ path: `${itemPath}.minWidth`, severity: 'warning', message: 'minWidth is larger than maxWidth; the override never applies' });
+    }
+    validateLayoutPatch(override.layout, `${itemPath}.layout`, out);
+    checkUnknownKeys(override, OVERRIDE_KEYS, itemPath, out);
+  });
+};
+
+/**
+ * Validates an already-parsed document against the LayoutElement / LayoutConfig schema.
+ * Pure and framework-free so the editor, importers and headless tools share the same rules.
+ */
+export const validateDocument = (doc: unknown): DslDiagnostic[] => {
+  const out: DslDiagnostic[] = [];
+
+  if (!Array.isArray(doc)) {
+    out.push({ path: '', severity: 'error', message: `Document root must be a list of elements, got ${describe(doc)}` });
+    return out;
+  }
+
+  const seenIds = new Map<string, number>();
+
+  doc.forEach((item, index) => {
+    const path = `[${index}]`;
+    if (!isPlainObject(item)) {
+      out.push({ path, severity: 'error', message: `Expected an element mapping, got ${describe(item)}` });
+      return;
+    }
+
+    if (typeof item.id !== 'string' || item.id.length === 0) {
+      out.push({ path: `${path}.id`, severity: 'error', message: 'Element id must be a non-empty string' });
+    } else if (seenIds.has(item.id)) {
+      out.push({ path: `${path}.id`, severity: 'error', message: `Duplicate id "${item.id}" (first used at [${seenIds.get(item.id)}])` });
+    } else {
+      seenIds.set(item.id, index);
+    }
+
+    if (!ELEMENT_TYPES.includes(item.type as string)) {
+      out.push({
+        path: `${path}.type`,
+        severity: 'error',
+        message: `Unknown element type ${describe(item.type)} (expected one of ${ELEMENT_TYPES.join(', ')})`
+      });
+    }
+
+    if (item.name === undefined) {
+      out.push({ path: `${path}.name`, severity: 'warning', message: 'Missing name' });
+    } else if (typeof item.name !== 'string') {
+      out.push({ path: `${path}.name`, severity: 'error', message: `Expected a string, got ${describe(item.name)}` });
+    }
+
+    (['locked', 'hidden', 'hiddenContains'] as const).forEach((key) => {
+      if (item[key] !== undefined && typeof item[key] !== 'boolean') {
+        out.push({ path: `${path}.${key}`, severity: 'error', message: `Expected true or false, got ${describe(item[key])}` });
+      }
+    });
+    if (item.hiddenContains !== undefined && item.hidden !== true) {
+      out.push({ path: `${path}.hiddenContains`, severity: 'warning', message: 'hiddenContains is only used when hidden is true' });
+    }
+
+    validateLayout(item.layout, `${path}.layout`, out);
+    if (item.overrides !== undefined) validateOverrides(item.overrides, `${path}.overrides`, out);
+    checkUnknownKeys(item, [...ELEMENT_KEYS, '_runtime'], path, out);
+  });
+
+  // Explicit parents can only be checked once every id is known
+  doc.forEach((item, index) => {
+    if (!isPlainObject(item) || item.parent === undefined) return;
+    const path = `[${index}].parent`;
+    if (typeof item.parent !== 'string') {
+      out.push({ path, severity: 'error', message: `Expected a parent id, got ${describe(item.parent)}` });
+    } else if (item.parent === item.id) {
+      out.push({ path, severity: 'error', message: 'An element cannot be its own parent' });
+    } else if (item.parent !== ROOT_PARENT_ID && !seenIds.has(item.parent)) {
+      out.push({ path, severity: 'warning', message: `Unknown parent "${item.parent}", falling back to containment` });
+    }
+  });
+
+  return out;
+};
+
+export const hasErrors = (diagnostics: DslDiagnostic[]): boolean =>
+  diagnostics.some((d) => d.severity === 'error');
@@ -0,0 +1,52 @@
+import * as yaml from 'js-yaml';
+import { LayoutElement } from '../types';
+import { DslDiagnostic, hasErrors, validateDocument } from './dslValidator';
+
+export interface DslParseResult {
+  // null whenever diagnostics contain an error; warnings alone still yield elements
+  elements: LayoutElement[] | null;
+  diagnostics: DslDiagnostic[];
+}
+
+/**
+ * Serializes the document to YAML. Runtime geometry is editor-only and never saved.
+ */
+export const serializeDocument = (elements: LayoutElement[]): string => {
+  const cleanElements = elements.map(({ _runtime, ...rest }) => rest);
+  return yaml.dump(cleanElements);
+};
+
+/**
+ * Parses and validates a YAML document.
+ * Never throws: syntax errors carry their line/column, schema problems their path.
+ */
+export const parseDocument = (source: string): DslParseResult => {
+  let raw: unknown;
+  try {
+    raw = yaml.load(source);
+  } catch (err) {
+    if (err instanceof yaml.YAMLException) {
+      return {
+        elements: null,
+        diagnostics: [{
+          path: '',
+          severity: 'error',
+          message: err.reason || err.message,
+          line: err.mark ? err.mark.line + 1 : undefined,
+          column: err.mark ? err.mark.column + 1 : undefined,
+        }]
+      };
+    }
+    return { elements: null, diagnostics: [{ path: '', severity: 'error', message: String(err) }] };
+  }
+
+  // An empty document is a valid, empty layout
+  if (raw === undefined || raw === null) return { elements: [], diagnostics: [] };
+
+  const diagnostics = validateDocument(raw);
+  if (hasErrors(diagnostics)) return { elements: null, diagnostics };
+
+  // Strip any pasted runtime data; it is always recomputed by the engine
+  const elements = (raw as Record<string, unknown>[]).map(({ _runtime, ...rest }) => rest as unknown as LayoutElement);
+  return { elements, diagnostics };
+};
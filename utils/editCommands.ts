@@ -0,0 +1,256 @@
+import { LayoutElement, Viewport } from '../types';
+import { ROOT_PARENT_ID } from '../constants';
+import { getStackConfig, isAutoLayout, placeElementAtRect } from './layoutUtils';
+
+// Runtime parent -> child ids, in document order
+const getChildIds = (elements: LayoutElement[]): Map<string, string[]> => {
+  const childrenOf = new Map<string, string[]>();
+  elements.forEach((el) => {
+    const parentId = el._runtime?.parentId;
+    if (!parentId) return;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), el.id]);
+  });
+  return childrenOf;
+};
+
+// `ids` and everything nested in them. Guards against parent cycles.
+const withDescendants = (elements: LayoutElement[], ids: string[]): Set<string> => {
+  const childrenOf = getChildIds(elements);
+  const result = new Set<string>();
+  const queue = [...ids];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    queue.push(...(childrenOf.get(id) || []));
+  }
+  return result;
+};
+
+// Hidden elements and everything nested in them, none of which is drawn
+export const getHiddenIds = (elements: LayoutElement[]): Set<string> =>
+  withDescendants(elements, elements.filter(el => el.hidden).map(el => el.id));
+
+// Elements of a fragment that no other fragment element contains
+export const getFragmentRoots = (fragment: LayoutElement[]): LayoutElement[] => {
+  const ids = new Set(fragment.map(el => el.id));
+  return fragment.filter(el => !el.parent || !ids.has(el.parent));
+};
+
+/**
+ * Copies the elements `ids` with everything nested in them, in document order and without
+ * runtime data. The hierarchy is written out as explicit `parent`s, so it survives a paste
+ * anywhere; the topmost elements lose theirs, the paste decides where they go.
+ * `elements` must be laid out: nesting is read from `_runtime.parentId`.
+ */
+export const copySubtrees = (elements: LayoutElement[], ids: string[]): LayoutElement[] => {
+  const copied = withDescendants(elements, ids);
+  return elements
+    .filter(el => copied.has(el.id))
+    .map(({ _runtime, parent, ...el }) => {
+      const parentId = _runtime?.parentId;
+      return parentId && copied.has(parentId) ? { ...el, parent: parentId } : el;
+    });
+};
+
+/**
+ * Where a paste goes with the current selection: into the first selected element if it can
+ * contain others, otherwise next to it. Pasting onto one of the copied elements themselves
+ * lands next to it too. null means the canvas.
+ */
+export const getPasteTarget = (
+  elements: LayoutElement[],
+  selectedIds: string[],
+  fragment: LayoutElement[]
+): string | null => {
+  const selected = elements.find(el => el.id === selectedIds[0]);
+  if (!selected) return null;
+  const copied = fragment.some(el => el.id === selected.id);
+  if (!copied && selected.layout.isContainer !== false) return selected.id;
+  return selected._runtime?.parentId ?? null;
+};
+
+/**
+ * Turns a copied fragment into new document elements: fresh ids, and each topmost element
+ * pinned to `targetOf(its copied id)` (null: the canvas), so its offsets are read relative to
+ * that container whatever happens to sit under it.
+ * A subtree whose top would sit below its new parent is raised above it, as a whole.
+ */
+const insertFragment = (
+  elements: LayoutElement[],
+  fragment: LayoutElement[],
+  targetOf: (rootId: string) => string | null
+): LayoutElement[] => {
+  const taken = new Set(elements.map(el => el.id));
+  const stamp = Date.now();
+  let counter = 0;
+  const nextId = () => {
+    let id = `el-${stamp}-${counter++}`;
+    while (taken.has(id)) id = `el-${stamp}-${counter++}`;
+    taken.add(id);
+    return id;
+  };
+  const idMap = new Map(fragment.map(el => [el.id, nextId()] as const));
+
+  // Z-index shift per topmost element, inherited by its subtree
+  const shifts = new Map<string, number>();
+  getFragmentRoots(fragment).forEach((root) => {
+    const target = elements.find(el => el.id === targetOf(root.id));
+    const minZ = target ? (target.layout.zIndex || 0) + 1 : -Infinity;
+    shifts.set(root.id, Math.max(0, minZ - (root.layout.zIndex || 0)));
+  });
+  const byId = new Map(fragment.map(el => [el.id, el]));
+  const getShift = (el: LayoutElement): number => {
+    const seen = new Set<string>();
+    let current = el;
+    while (!shifts.has(current.id) && current.parent && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent)!;
+    }
+    return shifts.get(current.id) || 0;
+  };
+
+  return fragment.map((el) => {
+    const { _runtime, parent, ...rest } = el;
+    const shift = getShift(el);
+    const nextParent = parent && idMap.has(parent)
+      ? idMap.get(parent)!
+      : shifts.has(el.id) ? targetOf(el.id) ?? ROOT_PARENT_ID : null;
+    const shiftZ = <T extends { zIndex?: number }>(layout: T): T =>
+      shift && layout.zIndex !== undefined ? { ...layout, zIndex: layout.zIndex + shift } : layout;
+    return {
+      ...rest,
+      id: idMap.get(el.id)!,
+      ...(nextParent ? { parent: nextParent } : {}),
+      layout: shiftZ(el.layout),
+      ...(el.overrides ? { overrides: el.overrides.map(o => ({ ...o, layout: shiftZ(o.layout) })) } : {}),
+    };
+  });
+};
+
+/**
+ * New elements for pasting `fragment` (see copySubtrees) into the container `targetId`,
+ * or onto the canvas with null. Append them to the document and lay it out.
+ */
+export const pasteFragment = (
+  elements: LayoutElement[],
+  fragment: LayoutElement[],
+  targetId: string | null
+): LayoutElement[] => insertFragment(elements, fragment, () => targetId);
+
+/**
+ * New elements duplicating `ids` and everything nested in them, each copy in the same place
+ * and container as its original. Append them to the document after pinning the originals
+ * (pinParents) and lay it out.
+ */
+export const duplicateElements = (elements: LayoutElement[], ids: string[]): LayoutElement[] => {
+  const parentOf = new Map(elements.map(el => [el.id, el._runtime?.parentId ?? null]));
+  return insertFragment(elements, copySubtrees(elements, ids), rootId => parentOf.get(rootId) ?? null);
+};
+
+/**
+ * Pins `ids` and everything nested in them to the parent they resolve to now (`'root'` on the
+ * canvas); elements with an explicit parent keep it. A duplicate covers its original with the
+ * same z-index and area, so without this containment could put the original inside its own
+ * copy, or tie the original's children between the two.
+ */
+export const pinParents = (elements: LayoutElement[], ids: string[]): LayoutElement[] => {
+  const pinned = withDescendants(elements, ids);
+  return elements.map(el =>
+    pinned.has(el.id) && !el.parent ? { ...el, parent: el._runtime?.parentId || ROOT_PARENT_ID } : el
+  );
+};
+
+/**
+ * Removes `ids` from a laid-out document. With `withChildren` everything nested in them goes
+ * too; otherwise their children stay where they are and are re-anchored to whatever contains
+ * them now (a parent pinned to a removed element is dropped first). Returns the remaining
+ * elements, edited in the form they were passed in (e.g. effective layouts).
+ */
+export const deleteElements = (
+  elements: LayoutElement[],
+  ids: string[],
+  withChildren: boolean,
+  viewport: Viewport
+): LayoutElement[] => {
+  const removed = withChildren ? withDescendants(elements, ids) : new Set(ids);
+  let remaining = elements.filter(el => !removed.has(el.id));
+
+  remaining
+    .filter(el => (el._runtime?.parentId && removed.has(el._runtime.parentId)) || (el.parent && removed.has(el.parent)))
+    .forEach((orphan) => {
+      const { parent, ...unpinned } = orphan;
+      const released = parent && removed.has(parent) ? unpinned : orphan;
+      const placed = orphan._runtime ? placeElementAtRect(released, orphan._runtime, remaining, viewport) : released;
+      remaining = remaining.map(el => el.id === orphan.id ? placed : el);
+    });
+  return remaining;
+};
+
+/**
+ * Children of `parent` (null: the canvas) in the order the layer panel lists them, given in
+ * document order: a stack's items in stack order (document order), otherwise topmost first.
+ */
+export const orderLayers = (children: LayoutElement[], parent: LayoutElement | null): LayoutElement[] => {
+  if (parent && getStackConfig(parent.layout)) return children;
+  return [...children].sort((a, b) => (b.layout.zIndex || 0) - (a.layout.zIndex || 0));
+};
+
+/**
+ * Moves the element `id` into `parentId` (null: the canvas), at its position in `siblingIds`:
+ * the new parent's children in layer order (see orderLayers), including `id`.
+ * The element keeps its absolute rect, back-calculated like a drop on the canvas; a stack or
+ * grid places it itself, from the point of it nearest to where the element is. `parent` is
+ * only pinned when containment at that rect would not find the new parent by itself.
+ * Order is written as document order in a stack, otherwise by handing the siblings' own
+ * z-indices out again, so nothing outside this parent changes.
+ */
+export const moveElement = (
+  elements: LayoutElement[],
+  id: string,
+  parentId: string | null,
+  siblingIds: string[],
+  viewport: Viewport
+): LayoutElement[] => {
+  const el = elements.find(e => e.id === id);
+  if (!el) return elements;
+  const parent = parentId ? elements.find(e => e.id === parentId) || null : null;
+
+  let updated = elements;
+  if ((el._runtime?.parentId ?? null) !== parentId && el._runtime) {
+    // A stack or grid lets go of items centered outside of it, so the center is pulled inside
+    const box = parent?._runtime;
+    const rect = { ...el._runtime };
+    if (box && isAutoLayout(parent!.layout)) {
+      rect.x = Math.min(Math.max(rect.x + rect.width / 2, box.x), box.x + box.width) - rect.width / 2;
+      rect.y = Math.min(Math.max(rect.y + rect.height / 2, box.y), box.y + box.height) - rect.height / 2;
+    }
+    const { parent: pinnedParent, ...unpinned } = el;
+    const detected = placeElementAtRect(unpinned, rect, elements, viewport);
+    const placed = (detected._runtime?.parentId ?? null) === parentId
+      ? detected
+      : placeElementAtRect({ ...unpinned, parent: parentId ?? ROOT_PARENT_ID }, rect, elements, viewport);
+    updated = updated.map(e => e.id === id ? placed : e);
+  }
+
+  if (parent && getStackConfig(parent.layout)) {
+    const moved = updated.find(e => e.id === id)!;
+    const rest = updated.filter(e => e.id !== id);
+    const index = siblingIds.indexOf(id);
+    const next = siblingIds[index + 1];
+    const previous = siblingIds[index - 1];
+    const at = next ? rest.findIndex(e => e.id === next) : previous ? rest.findIndex(e => e.id === previous) + 1 : rest.length;
+    rest.splice(at, 0, moved);
+    return rest;
+  }
+
+  // Equal values cannot express an order, so they are split upwards from the lowest
+  const zIndices = siblingIds.map(sid => updated.find(e => e.id === sid)?.layout.zIndex || 0).sort((a, b) => b - a);
+  for (let i = zIndices.length - 2; i >= 0; i--) {
+    if (zIndices[i] <= zIndices[i + 1]) zIndices[i] = zIndices[i + 1] + 1;
+  }
+  return updated.map((e) => {
+    const index = siblingIds.indexOf(e.id);
+    return index === -1 ? e : { ...e, layout: { ...e.layout, zIndex: zIndices[index] } };
+  });
+};
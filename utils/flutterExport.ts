@@ -0,0 +1,336 @@
+import { LayoutConfig, LayoutElement, LayoutTerm, LayoutValue, UnitType, Viewport } from '../types';
+import { VIEWPORTS } from '../constants';
+import { calculateRuntimePositions, getContentRect, getDerivedDimension, getGridConfig, getStackConfig } from './layoutUtils';
+import { formatBreakpoint, getBreakpointSegments, withEffectiveLayouts } from './breakpoints';
+import { getCssChildren } from './cssLayout';
+
+export interface FlutterExportOptions {
+  // Name of the generated widget class
+  className?: string;
+  // Viewport used to resolve parents found by containment (its width is replaced per breakpoint)
+  viewport?: Viewport;
+}
+
+type Lines = string[];
+
+const indent = (lines: Lines, depth = 1): Lines => lines.map((line) => (line ? `${'  '.repeat(depth)}${line}` : line));
+
+// A Dart double literal
+const num = (n: number): string => {
+  const rounded = Math.round(n * 10000) / 10000;
+  return Number.isInteger(rounded) ? `${rounded}.0` : String(rounded);
+};
+
+// Wraps compound expressions so they can be used as an operand
+const paren = (expr: string): string => (/[+\-*/] /.test(expr) ? `(${expr})` : expr);
+
+const usesParentSize = (lines: Lines): boolean => lines.some((line) => /\bp[wh]\b/.test(line));
+
+// `Name(args..., child: ...)` with Dart's trailing commas
+const widget = (name: string, args: string[], child?: Lines, childKey = 'child'): Lines => {
+  const body = args.map((arg) => `${arg},`);
+  if (child) body.push(`${childKey}: ${child[0]}`, ...child.slice(1));
+  if (child) body[body.length - 1] += ',';
+  return body.length === 0 ? [`${name}()`] : [`${name}(`, ...indent(body), ')'];
+};
+
+const list = (items: Lines[]): Lines => {
+  if (items.length === 0) return ['[]'];
+  return ['[', ...indent(items.flatMap((item) => [...item.slice(0, -1), `${item[item.length - 1]},`])), ']'];
+};
+
+// Exposes the incoming constraints as `pw` / `ph` (plus any extra locals) to `child`
+const layoutBuilder = (child: Lines, locals: string[] = []): Lines => [
+  'LayoutBuilder(',
+  '  builder: (context, constraints) {',
+  '    final pw = constraints.maxWidth;',
+  '    final ph = constraints.maxHeight;',
+  ...locals.map((local) => `    ${local}`),
+  `    return ${child[0]}`,
+  ...indent(child.slice(1), 2),
+  '  },',
+  ')',
+].map((line, i, all) => (i === all.length - 3 ? `${line};` : line));
+
+const termExpr = (term: LayoutTerm): string => {
+  const ref =
+    term.unit === UnitType.PERCENT_PARENT_W ? 'pw' :
+    term.unit === UnitType.PERCENT_PARENT_H ? 'ph' :
+    term.unit === UnitType.VW ? 'screen.width' :
+    term.unit === UnitType.VH ? 'screen.height' : null;
+  if (!ref) return num(term.value);
+  const factor = term.value / 100;
+  return factor === 1 ? ref : `${ref} * ${num(factor)}`;
+};
+
+/**
+ * A layout value as a Dart expression. Parent percentages use the `pw` / `ph` of the enclosing
+ * LayoutBuilder, viewport units the `screen` size from MediaQuery.
+ */
+const valueExpr = (val: LayoutValue): string => {
+  let expr = termExpr(val);
+  (val.terms || []).forEach((term) => {
+    expr += ` ${term.value < 0 ? '-' : '+'} ${termExpr({ ...term, value: Math.abs(term.value) })}`;
+  });
+  return expr;
+};
+
+const ZERO = '0.0';
+
+// Applies min/max like the engine: max first, so min wins when they conflict
+const clampExpr = (expr: string, layout: LayoutConfig, dim: 'width' | 'height'): string => {
+  const min = dim === 'width' ? layout.minWidth : layout.minHeight;
+  const max = dim === 'width' ? layout.maxWidth : layout.maxHeight;
+  let result = expr;
+  if (max) result = `math.min(${result}, ${valueExpr(max)})`;
+  if (min) result = `math.max(${result}, ${valueExpr(min)})`;
+  return result;
+};
+
+const MAIN_AXIS = { start: 'start', center: 'center', end: 'end', 'space-between': 'spaceBetween' };
+
+/**
+ * Generates a Flutter widget for the document: nested `Stack`s with `Positioned` children for
+ * absolute containers, `Align` for centered anchors, `FractionallySizedBox` for centered
+ * percentage boxes, `Flex`/`Wrap` for stacks and `LayoutBuilder` wherever parent percentages
+ * are needed. Breakpoint overrides become one build method per width range.
+ */
+export const exportFlutter = (elements: LayoutElement[], options: FlutterExportOptions = {}): string => {
+  const className = options.className || 'LayoutFlowLayout';
+  const baseViewport = options.viewport || VIEWPORTS[0];
+  let usesMath = false;
+
+  const buildTree = (viewport: Viewport): Lines => {
+    const laidOut = withEffectiveLayouts(calculateRuntimePositions(elements, viewport), viewport);
+
+    // Size of one dimension, as the element's own box would resolve it inside `pw` x `ph`
+    const sizeExpr = (layout: LayoutConfig, dim: 'width' | 'height'): string => {
+      const axis = dim === 'width' ? 'x' : 'y';
+      const anchor = axis === 'x' ? layout.anchorX : layout.anchorY;
+      if (anchor === 'stretch') {
+        const end = (axis === 'x' ? layout.xEnd : layout.yEnd);
+        const span = `${axis === 'x' ? 'pw' : 'ph'} - ${paren(valueExpr(layout[axis]))} - ${paren(end ? valueExpr(end) : ZERO)}`;
+        return clampExpr(span, layout, dim);
+      }
+      const derived = getDerivedDimension(layout);
+      if (derived === dim) {
+        const source = paren(sizeExpr(layout, dim === 'width' ? 'height' : 'width'));
+        return clampExpr(dim === 'height' ? `${source} / ${num(layout.aspectRatio!)}` : `${source} * ${num(layout.aspectRatio!)}`, layout, dim);
+      }
+      return clampExpr(layout[dim] ? valueExpr(layout[dim]!) : ZERO, layout, dim);
+    };
+
+    // A single parent percentage along its own axis, e.g. width: 50%p_w -> 0.5
+    const sizeFactor = (layout: LayoutConfig, dim: 'width' | 'height'): number | null => {
+      const val = layout[dim];
+      const unit = dim === 'width' ? UnitType.PERCENT_PARENT_W : UnitType.PERCENT_PARENT_H;
+      const constrained = dim === 'width' ? layout.minWidth || layout.maxWidth : layout.minHeight || layout.maxHeight;
+      if (!val || val.unit !== unit || (val.terms && val.terms.length > 0) || constrained || getDerivedDimension(layout)) return null;
+      return val.value / 100;
+    };
+
+    const box = (el: LayoutElement): Lines => {
+      const shape = `shape: BoxShape.${el.type === 'circle' ? 'circle' : 'rectangle'}`;
+      // The border is painted on top: in `decoration` it would inset the children, and with them
+      // the LayoutBuilder sizes their percentages read
+      const container = widget('Container', [
+        `decoration: BoxDecoration(${shape}, color: const Color(0x1A3B82F6))`,
+        `foregroundDecoration: BoxDecoration(${shape}, border: Border.all(color: const Color(0x1A000000)))`,
+      ], childrenLayout(el));
+      // Hidden boxes keep their size, so Flex siblings stay where the engine put them
+      return el.hidden
+        ? widget('Visibility', ['visible: false', 'maintainSize: true', 'maintainAnimation: true', 'maintainState: true'], container)
+        : container;
+    };
+
+    const comment = (el: LayoutElement) => `// ${(el.name || el.id).replace(/\s+/g, ' ')}`;
+
+    // An element in an absolute container
+    const positioned = (el: LayoutElement): Lines => {
+      const { layout } = el;
+      const args: string[] = [];
+      const centered = { x: false, y: false };
+      (['x', 'y'] as const).forEach((axis) => {
+        const anchor = (axis === 'x' ? layout.anchorX : layout.anchorY) || (axis === 'x' ? 'left' : 'top');
+        const [startKey, endKey, dim] = axis === 'x' ? ['left', 'right', 'width'] as const : ['top', 'bottom', 'height'] as const;
+        const offset = valueExpr(layout[axis]);
+        if (anchor === 'stretch') {
+          const end = axis === 'x' ? layout.xEnd : layout.yEnd;
+          args.push(`${startKey}: ${offset}`, `${endKey}: ${end ? valueExpr(end) : ZERO}`);
+        } else if (anchor === 'center') {
+          // The box spans the parent on this axis; Align centers the child in it
+          centered[axis] = true;
+          args.push(`${startKey}: ${ZERO}`, `${endKey}: ${ZERO}`);
+        } else {
+          args.push(`${anchor === 'left' || anchor === 'top' ? startKey : endKey}: ${offset}`, `${dim}: ${sizeExpr(layout, dim)}`);
+        }
+      });
+
+      let child = box(el);
+      if (centered.x || centered.y) {
+        const wf = sizeFactor(layout, 'width');
+        const hf = sizeFactor(layout, 'height');
+        if (centered.x && centered.y && wf !== null && hf !== null) {
+          child = widget('FractionallySizedBox', [`widthFactor: ${num(wf)}`, `heightFactor: ${num(hf)}`], child);
+        } else {
+          child = widget('SizedBox', [
+            `width: ${centered.x ? sizeExpr(layout, 'width') : 'double.infinity'}`,
+            `height: ${centered.y ? sizeExpr(layout, 'height') : 'double.infinity'}`,
+          ], child);
+        }
+        const dx = centered.x ? valueExpr(layout.x) : ZERO;
+        const dy = centered.y ? valueExpr(layout.y) : ZERO;
+        if (dx !== ZERO || dy !== ZERO) child = widget('Transform.translate', [`offset: Offset(${dx}, ${dy})`], child);
+        child = widget('Align', ['alignment: Alignment.center'], child);
+      }
+      return [comment(el), ...widget('Positioned', args, child)];
+    };
+
+    // An element in a stack: sized only, the Flex places it
+    const stackItem = (el: LayoutElement, parent: LayoutElement): Lines => {
+      const { layout } = el;
+      const stack = getStackConfig(parent.layout)!;
+      const crossDim = stack.direction === 'row' ? 'height' : 'width';
+      const flexStretch = stack.crossAlign === 'stretch' && !stack.wrap;
+      const dimExpr = (dim: 'width' | 'height') => {
+        if (flexStretch && dim === crossDim) return null;
+        const stretched = (dim === 'width' ? layout.anchorX : layout.anchorY) === 'stretch';
+        if (stretched) return clampExpr(dim === 'width' ? 'pw' : 'ph', layout, dim);
+        // Stack items have no insets, so a stretched source axis fills the content box
+        const derived = getDerivedDimension(layout);
+        if (derived === dim) {
+          const other = dim === 'width' ? 'height' : 'width';
+          const source = (other === 'width' ? layout.anchorX : layout.anchorY) === 'stretch' ? (other === 'width' ? 'pw' : 'ph') : paren(sizeExpr(layout, other));
+          return clampExpr(dim === 'height' ? `${source} / ${num(layout.aspectRatio!)}` : `${source} * ${num(layout.aspectRatio!)}`, layout, dim);
+        }
+        return sizeExpr(layout, dim);
+      };
+      const args = (['width', 'height'] as const)
+        .map((dim) => [dim, dimExpr(dim)] as const)
+        .filter(([, expr]) => expr !== null)
+        .map(([dim, expr]) => `${dim}: ${expr}`);
+      return [comment(el), ...widget('SizedBox', args, box(el))];
+    };
+
+    // An element in a grid: Flutter has no grid tracks, so the cell area is placed in pixels
+    const gridItem = (el: LayoutElement, parent: LayoutElement): Lines => {
+      const content = getContentRect(parent, parent._runtime!, viewport);
+      const rt = el._runtime!;
+      return [comment(el), ...widget('Positioned', [
+        `left: ${num(rt.x - content.x)}`,
+        `top: ${num(rt.y - content.y)}`,
+        `width: ${num(rt.width)}`,
+        `height: ${num(rt.height)}`,
+      ], box(el))];
+    };
+
+    const childrenLayout = (el: LayoutElement): Lines | undefined => {
+      const children = getCssChildren(el, laidOut);
+      if (children.length === 0) return undefined;
+      const stack = getStackConfig(el.layout);
+      const grid = getGridConfig(el.layout);
+
+      if (grid) {
+        const padding = grid.padding ? valueExpr(grid.padding) : null;
+        let layout = widget('Stack', [], list(children.map((child) => gridItem(child, el))), 'children');
+        layout = [`// Grid tracks are resolved at ${viewport.width}px; cells do not reflow`, ...layout];
+        if (padding) layout = widget('Padding', [`padding: EdgeInsets.all(${padding})`], layout);
+        return usesParentSize(layout) ? layoutBuilder(layout) : layout;
+      }
+
+      if (stack) {
+        const items = children.map((child) => stackItem(child, el));
+        const gap = stack.gap ? valueExpr(stack.gap) : null;
+        const padding = stack.padding ? valueExpr(stack.padding) : null;
+        // Gap and padding percentages refer to the container itself, items to its content box
+        const ownSize = [gap, padding].some((expr) => expr && /\bp[wh]\b/.test(expr));
+        const gapRef = gap && ownSize ? 'gap' : gap;
+        const paddingRef = padding && ownSize ? 'padding' : padding;
+        const direction = stack.direction === 'row' ? 'Axis.horizontal' : 'Axis.vertical';
+
+        let layout = stack.wrap
+          ? widget('Wrap', [
+              `direction: ${direction}`,
+              `alignment: WrapAlignment.${MAIN_AXIS[stack.mainAlign || 'start']}`,
+              `crossAxisAlignment: WrapCrossAlignment.${stack.crossAlign === 'center' || stack.crossAlign === 'end' ? stack.crossAlign : 'start'}`,
+              ...(gapRef ? [`spacing: ${gapRef}`, `runSpacing: ${gapRef}`] : []),
+            ], list(items), 'children')
+          : widget('Flex', [
+              `direction: ${direction}`,
+              `mainAxisAlignment: MainAxisAlignment.${MAIN_AXIS[stack.mainAlign || 'start']}`,
+              `crossAxisAlignment: CrossAxisAlignment.${stack.crossAlign || 'start'}`,
+              ...(gapRef ? [`spacing: ${gapRef}`] : []),
+            ], list(items), 'children');
+        // Without padding the outer builder below already measures the content box
+        if (usesParentSize(items.flat()) && !(ownSize && !padding)) layout = layoutBuilder(layout);
+        if (paddingRef) layout = widget('Padding', [`padding: EdgeInsets.all(${paddingRef})`], layout);
+        if (ownSize) {
+          layout = layoutBuilder(layout, [
+            ...(gap ? [`final gap = ${gap};`] : []),
+            ...(padding ? [`final padding = ${padding};`] : []),
+          ]);
+        }
+        return layout;
+      }
+
+      const layout = widget('Stack', [], list(children.map(positioned)), 'children');
+      return usesParentSize(layout) ? layoutBuilder(layout) : layout;
+    };
+
+    const roots = laidOut
+      .filter((el) => !el._runtime?.parentId)
+      .sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0));
+    const tree = widget('SizedBox', ['width: pw', 'height: ph'], widget('Stack', [], list(roots.map(positioned)), 'children'));
+    if (tree.some((line) => line.includes('math.'))) usesMath = true;
+    return tree;
+  };
+
+  // The canvas is the screen
+  const body = (tree: Lines): Lines => [
+    'final pw = screen.width;',
+    'final ph = screen.height;',
+    `return ${tree[0]}`,
+    ...tree.slice(1, -1),
+    `${tree[tree.length - 1]};`,
+  ];
+
+  // One build method per width range where the overrides differ; identical neighbours merge
+  const variants: { min?: number; max?: number; tree: Lines }[] = [];
+  getBreakpointSegments(elements).forEach((segment) => {
+    const width = segment.minWidth ?? segment.maxWidth ?? baseViewport.width;
+    const tree = buildTree({ ...baseViewport, width });
+    const last = variants[variants.length - 1];
+    if (last && last.tree.join('\n') === tree.join('\n')) last.max = segment.maxWidth;
+    else variants.push({ min: segment.minWidth, max: segment.maxWidth, tree });
+  });
+
+  const buildLines: Lines = ['final screen = MediaQuery.of(context).size;'];
+  const methods: Lines = [];
+  if (variants.length === 1) {
+    buildLines.push(...body(variants[0].tree));
+  } else {
+    variants.forEach((variant, i) => {
+      const range = formatBreakpoint({ minWidth: variant.min, maxWidth: variant.max });
+      if (i < variants.length - 1) buildLines.push(`if (screen.width <= ${variant.max}) return _build${i}(screen); // ${range}`);
+      else buildLines.push(`return _build${i}(screen); // ${range}`);
+      methods.push('', `Widget _build${i}(Size screen) {`, ...indent(body(variant.tree)), '}');
+    });
+  }
+
+  return [
+    '// Generated by LayoutFlow from layout.yaml. Do not edit by hand.',
+    ...(usesMath ? ["import 'dart:math' as math;", ''] : []),
+    "import 'package:flutter/material.dart';",
+    '',
+    `class ${className} extends StatelessWidget {`,
+    `  const ${className}({super.key});`,
+    '',
+    '  @override',
+    '  Widget build(BuildContext context) {',
+    ...indent(buildLines, 2),
+    '  }',
+    ...indent(methods),
+    '}',
+    '',
+  ].join('\n');
+};
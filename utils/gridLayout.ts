@@ -0,0 +1,144 @@
+import { GridCell, GridTrack, Rect } from '../types';
+
+// A resolved track along one axis, in absolute pixels
+export interface TrackSpan {
+  start: number;
+  size: number;
+}
+
+export interface ResolvedGrid {
+  columns: TrackSpan[];
+  rows: TrackSpan[];
+  rowGap: number;
+  // The content box along the column axis, shared by the implicit rows of a grid without rows
+  rowSpace: TrackSpan;
+}
+
+/**
+ * Resolves track sizes along one axis of the content box. Percentages refer to the
+ * content size; `fr` tracks share what is left after fixed tracks and gaps.
+ */
+export const resolveTracks = (tracks: GridTrack[], start: number, size: number, gap: number): TrackSpan[] => {
+  const fixedSize = (t: GridTrack) => (t.unit === '%' ? (t.value / 100) * size : t.value);
+
+  let fixed = 0;
+  let fr = 0;
+  tracks.forEach((t) => {
+    if (t.unit === 'fr') fr += t.value;
+    else fixed += fixedSize(t);
+  });
+  const available = size - gap * Math.max(0, tracks.length - 1);
+  const perFr = fr > 0 ? Math.max(0, available - fixed) / fr : 0;
+
+  let pos = start;
+  return tracks.map((t) => {
+    const span = { start: pos, size: t.unit === 'fr' ? t.value * perFr : fixedSize(t) };
+    pos += span.size + gap;
+    return span;
+  });
+};
+
+/**
+ * Places grid items into cell areas. Items with a cell come first (clamped to the column
+ * count); the rest take the first free cell in row-major order. Rows past the defined ones
+ * are implicit and repeat the last row's size; without defined rows, the implicit ones share
+ * the content height like `1fr` rows.
+ */
+export const layoutGrid = (
+  grid: ResolvedGrid,
+  items: { id: string; cell?: GridCell }[]
+): Record<string, Rect> => {
+  const { columns, rowGap, rowSpace } = grid;
+  const result: Record<string, Rect> = {};
+  if (columns.length === 0) return result;
+
+  const occupied = new Set<string>();
+  const isFree = (col: number, row: number, colSpan: number, rowSpan: number) => {
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = col; c < col + colSpan; c++) if (occupied.has(`${r},${c}`)) return false;
+    }
+    return true;
+  };
+
+  // 0-based areas, turned into rects once the row count is known
+  const areas: { id: string; col: number; row: number; colSpan: number; rowSpan: number }[] = [];
+  const place = (id: string, col: number, row: number, colSpan: number, rowSpan: number) => {
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = col; c < col + colSpan; c++) occupied.add(`${r},${c}`);
+    }
+    areas.push({ id, col, row, colSpan, rowSpan });
+  };
+
+  const autoItems: string[] = [];
+  items.forEach(({ id, cell }) => {
+    if (!cell) {
+      autoItems.push(id);
+      return;
+    }
+    const col = Math.min(Math.max(1, Math.round(cell.column)), columns.length) - 1;
+    const row = Math.max(1, Math.round(cell.row)) - 1;
+    const colSpan = Math.min(Math.max(1, Math.round(cell.columnSpan || 1)), columns.length - col);
+    const rowSpan = Math.max(1, Math.round(cell.rowSpan || 1));
+    place(id, col, row, colSpan, rowSpan);
+  });
+
+  let cursor = 0;
+  autoItems.forEach((id) => {
+    while (occupied.has(`${Math.floor(cursor / columns.length)},${cursor % columns.length}`)) cursor++;
+    place(id, cursor % columns.length, Math.floor(cursor / columns.length), 1, 1);
+  });
+
+  const rowCount = Math.max(0, ...areas.map(a => a.row + a.rowSpan));
+  const rows = grid.rows.length > 0
+    ? [...grid.rows]
+    : resolveTracks(Array.from({ length: rowCount }, () => ({ value: 1, unit: 'fr' as const })), rowSpace.start, rowSpace.size, rowGap);
+  while (rows.length < rowCount) {
+    const last = rows[rows.length - 1];
+    rows.push({ start: last.start + last.size + rowGap, size: last.size });
+  }
+
+  areas.forEach(({ id, col, row, colSpan, rowSpan }) => {
+    const first = columns[col];
+    const last = columns[col + colSpan - 1];
+    const top = rows[row];
+    const bottom = rows[row + rowSpan - 1];
+    result[id] = {
+      x: first.start,
+      y: top.start,
+      width: last.start + last.size - first.start,
+      height: bottom.start + bottom.size - top.start,
+    };
+  });
+  return result;
+};
+
+/**
+ * The cell area a dropped rect covers: every track whose center lies inside it,
+ * or the track under its center when it is smaller than a track.
+ */
+export const getCellAt = (rect: Rect, grid: ResolvedGrid): GridCell => {
+  const spanOn = (tracks: TrackSpan[], start: number, size: number) => {
+    const covered = tracks
+      .map((t, i) => ({ i, center: t.start + t.size / 2 }))
+      .filter(({ center }) => center >= start && center <= start + size)
+      .map(({ i }) => i);
+    if (covered.length > 0) return { index: covered[0], span: covered.length };
+
+    // Nearest track to the rect's center
+    const mid = start + size / 2;
+    let best = 0;
+    tracks.forEach((t, i) => {
+      const dist = Math.abs(t.start + t.size / 2 - mid);
+      const bestDist = Math.abs(tracks[best].start + tracks[best].size / 2 - mid);
+      if (dist < bestDist) best = i;
+    });
+    return { index: best, span: 1 };
+  };
+
+  const col = spanOn(grid.columns, rect.x, rect.width);
+  const row = grid.rows.length > 0 ? spanOn(grid.rows, rect.y, rect.height) : { index: 0, span: 1 };
+  const cell: GridCell = { column: col.index + 1, row: row.index + 1 };
+  if (col.span > 1) cell.columnSpan = col.span;
+  if (row.span > 1) cell.rowSpan = row.span;
+  return cell;
+};
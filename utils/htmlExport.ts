@@ -0,0 +1,150 @@
+import { Breakpoint, LayoutElement, Viewport } from '../types';
+import { VIEWPORTS } from '../constants';
+import { calculateRuntimePositions } from './layoutUtils';
+import { formatBreakpoint, isSameBreakpoint, withEffectiveLayouts } from './breakpoints';
+import { CssDeclarations, getCssChildren, getLayoutStyle } from './cssLayout';
+
+export interface HtmlExportOptions {
+  title?: string;
+  // Where the HTML links the stylesheet from
+  stylesheetHref?: string;
+  // Viewport used to resolve parents found by containment (defaults to the first preset)
+  viewport?: Viewport;
+}
+
+export interface HtmlExport {
+  html: string;
+  css: string;
+}
+
+const ROOT_CLASS = 'layoutflow-root';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toKebabCase = (prop: string) => prop.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/**
+ * CSS class names derived from element names (`Main Card` -> `main-card`), unique per document.
+ * `format` rewrites each candidate for another target (e.g. camelCase style keys); repeats are
+ * suffixed (`card-2`) until the formatted name is unique.
+ */
+export const getClassNames = (
+  elements: LayoutElement[],
+  format: (name: string) => string = (name) => name
+): Map<string, string> => {
+  const used = new Set([ROOT_CLASS]);
+  const names = new Map<string, string>();
+  elements.forEach((el) => {
+    let base = (el.name || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (!base) base = el.type;
+    if (/^[0-9]/.test(base)) base = `el-${base}`;
+    let name = format(base);
+    for (let i = 2; used.has(name); i++) name = format(`${base}-${i}`);
+    used.add(name);
+    names.set(el.id, name);
+  });
+  return names;
+};
+
+const formatRule = (selector: string, decls: CssDeclarations, indent = '') => {
+  const lines = Object.keys(decls)
+    .filter((prop) => decls[prop] !== undefined)
+    .map((prop) => `${indent}  ${toKebabCase(prop)}: ${decls[prop]};`);
+  return lines.length > 0 ? `${indent}${selector} {\n${lines.join('\n')}\n${indent}}` : '';
+};
+
+const formatMediaQuery = (bp: Breakpoint) => {
+  const parts: string[] = [];
+  if (bp.minWidth !== undefined) parts.push(`(min-width: ${bp.minWidth}px)`);
+  if (bp.maxWidth !== undefined) parts.push(`(max-width: ${bp.maxWidth}px)`);
+  return `@media ${parts.join(' and ') || 'all'}`;
+};
+
+/**
+ * Exports the document as static HTML plus a stylesheet: nested divs positioned like the
+ * Preview, one class per element. Breakpoint overrides become media queries holding only the
+ * declarations they change. Pure, so build tools can run it on a parsed layout.yaml.
+ */
+export const exportHtml = (elements: LayoutElement[], options: HtmlExportOptions = {}): HtmlExport => {
+  const viewport = options.viewport || VIEWPORTS[0];
+  const title = options.title || 'Layout';
+  const stylesheetHref = options.stylesheetHref || 'layout.css';
+
+  // Nesting is fixed in the markup, so it is resolved once
+  const laidOut = calculateRuntimePositions(elements, viewport);
+  const classNames = getClassNames(laidOut);
+
+  const stylesFor = (doc: LayoutElement[]) => {
+    const styles = new Map<string, CssDeclarations>();
+    doc.forEach((el) => {
+      const parent = doc.find((p) => p.id === el._runtime?.parentId);
+      const style = getLayoutStyle(el, parent);
+      if (el.type === 'circle') style.borderRadius = '50%';
+      styles.set(el.id, style);
+    });
+    return styles;
+  };
+  const baseStyles = stylesFor(laidOut);
+
+  const rules = [
+    formatRule('html, body', { margin: '0' }),
+    formatRule(`.${ROOT_CLASS}`, { position: 'relative', width: '100vw', height: '100vh', overflow: 'hidden' }),
+    // Every box is a size container so cross-axis percentages (cqw/cqh) resolve against the parent
+    formatRule(`.${ROOT_CLASS}, .${ROOT_CLASS} *`, { boxSizing: 'border-box', containerType: 'size' }),
+    ...laidOut.map((el) => formatRule(`.${classNames.get(el.id)}`, baseStyles.get(el.id)!)),
+  ];
+
+  // One media block per distinct breakpoint, sampled at a width inside its range
+  const breakpoints: Breakpoint[] = [];
+  laidOut.forEach((el) => (el.overrides || []).forEach((o) => {
+    if (!breakpoints.some((bp) => isSameBreakpoint(bp, o))) breakpoints.push({ minWidth: o.minWidth, maxWidth: o.maxWidth });
+  }));
+  breakpoints.forEach((bp) => {
+    const sample = { ...viewport, width: bp.minWidth ?? bp.maxWidth ?? viewport.width };
+    const styles = stylesFor(withEffectiveLayouts(laidOut, sample));
+    const blocks = laidOut.map((el) => {
+      const before = baseStyles.get(el.id)!;
+      const after = styles.get(el.id)!;
+      const changed: CssDeclarations = {};
+      new Set([...Object.keys(before), ...Object.keys(after)]).forEach((prop) => {
+        if (before[prop] !== after[prop]) changed[prop] = after[prop] ?? 'initial';
+      });
+      return formatRule(`.${classNames.get(el.id)}`, changed, '  ');
+    }).filter(Boolean);
+    if (blocks.length > 0) {
+      rules.push(`/* ${formatBreakpoint(bp)} */\n${formatMediaQuery(bp)} {\n${blocks.join('\n')}\n}`);
+    }
+  });
+
+  const renderNode = (el: LayoutElement, depth: number): string => {
+    const pad = '  '.repeat(depth);
+    const children = getCssChildren(el, laidOut);
+    const open = `${pad}<div class="${classNames.get(el.id)}" data-id="${escapeHtml(el.id)}" title="${escapeHtml(el.name || '')}">`;
+    if (children.length === 0) return `${open}</div>`;
+    return `${open}\n${children.map((child) => renderNode(child, depth + 1)).join('\n')}\n${pad}</div>`;
+  };
+  const roots = laidOut
+    .filter((el) => !el._runtime?.parentId)
+    .sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0));
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8" />',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `  <title>${escapeHtml(title)}</title>`,
+    `  <link rel="stylesheet" href="${escapeHtml(stylesheetHref)}" />`,
+    '</head>',
+    '<body>',
+    `  <div class="${ROOT_CLASS}">`,
+    ...roots.map((el) => renderNode(el, 2)),
+    '  </div>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+
+  return { html, css: `${rules.filter(Boolean).join('\n\n')}\n` };
+};
@@ -0,0 +1,90 @@
+import { GridTrack, LayoutTerm, LayoutValue, UnitType } from '../types';
+
+// Accepted unit spellings. The short `%w` / `%h` forms match the editor's %W / %H toggles.
+const UNIT_ALIASES: Record<string, UnitType> = {
+  'px': UnitType.PX,
+  '%p_w': UnitType.PERCENT_PARENT_W,
+  '%w': UnitType.PERCENT_PARENT_W,
+  '%p_h': UnitType.PERCENT_PARENT_H,
+  '%h': UnitType.PERCENT_PARENT_H,
+  'vw': UnitType.VW,
+  'vh': UnitType.VH,
+};
+
+// One signed term: operator, number, optional unit
+const TERM_PATTERN = /^\s*([+-])?\s*(\d+(?:\.\d*)?|\.\d+)\s*(px|%p_w|%p_h|%w|%h|vw|vh)?\s*/i;
+
+const formatNumber = (n: number): string =>
+  Number.isInteger(n) ? n.toString() : n.toFixed(2);
+
+/**
+ * Formats a value as an editable expression, e.g. `100%p_w - 32px`.
+ * Plain (single-term) values format as their bare number, since the unit is shown separately.
+ */
+export const formatLayoutValue = (val: LayoutValue): string => {
+  if (!val.terms || val.terms.length === 0) return formatNumber(val.value);
+
+  let out = `${formatNumber(val.value)}${val.unit}`;
+  val.terms.forEach((term) => {
+    out += `${term.value < 0 ? ' - ' : ' + '}${formatNumber(Math.abs(term.value))}${term.unit}`;
+  });
+  return out;
+};
+
+/**
+ * Parses an expression such as `50vw + 20px` or `100%p_w - 32px` into a LayoutValue.
+ * The first term becomes the primary `value`/`unit`; the rest go to `terms`.
+ *
+ * A bare number on its own keeps `defaultUnit` (so typing `50` into a % field stays %);
+ * inside a longer expression bare numbers are pixels.
+ * Returns null if the text is not a complete expression.
+ */
+export const parseLayoutExpression = (text: string, defaultUnit: UnitType): LayoutValue | null => {
+  const parsed: LayoutTerm[] = [];
+  const units: (string | undefined)[] = [];
+  let rest = text;
+
+  while (rest.trim().length > 0) {
+    const match = TERM_PATTERN.exec(rest);
+    if (!match) return null;
+
+    const [whole, sign, num, unit] = match;
+    // Every term after the first needs an explicit operator
+    if (parsed.length > 0 && !sign) return null;
+
+    const value = parseFloat(num) * (sign === '-' ? -1 : 1);
+    parsed.push({ value, unit: unit ? UNIT_ALIASES[unit.toLowerCase()] : UnitType.PX });
+    units.push(unit);
+    rest = rest.slice(whole.length);
+  }
+
+  if (parsed.length === 0) return null;
+  if (parsed.length === 1) {
+    return { value: parsed[0].value, unit: units[0] ? parsed[0].unit : defaultUnit };
+  }
+
+  const [primary, ...terms] = parsed;
+  return { value: primary.value, unit: primary.unit, terms };
+};
+
+const TRACK_PATTERN = /^(\d+(?:\.\d*)?|\.\d+)(px|fr|%)?$/i;
+
+/**
+ * Formats grid tracks as a CSS-like track list, e.g. `200px 1fr 25%`.
+ */
+export const formatGridTracks = (tracks: GridTrack[]): string =>
+  tracks.map((t) => `${formatNumber(t.value)}${t.unit}`).join(' ');
+
+/**
+ * Parses a track list such as `200px 1fr 25%`. Bare numbers are pixels.
+ * Returns null if any track is invalid; an empty list is allowed.
+ */
+export const parseGridTracks = (text: string): GridTrack[] | null => {
+  const tracks: GridTrack[] = [];
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const match = TRACK_PATTERN.exec(token);
+    if (!match) return null;
+    tracks.push({ value: parseFloat(match[1]), unit: (match[2] || 'px').toLowerCase() as GridTrack['unit'] });
+  }
+  return tracks;
+};
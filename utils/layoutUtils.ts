@@ -1,10 +1,15 @@
-import { LayoutElement, UnitType, Viewport, LayoutValue, AnchorX, AnchorY } from '../types';
+import { LayoutElement, UnitType, Viewport, LayoutValue, LayoutTerm, LayoutConfig, AnchorX, AnchorY, Rect, StackConfig, GridConfig } from '../types';
+import { ROOT_PARENT_ID } from '../constants';
+import { layoutStack } from './stackLayout';
+import { ResolvedGrid, getCellAt, layoutGrid, resolveTracks } from './gridLayout';
+import { withEffectiveLayouts } from './breakpoints';
+import { SpatialIndex, createSpatialIndex } from './spatialIndex';
 
 /**
- * Resolves a unit value to a raw pixel length (magnitude only).
+ * Resolves a single unit term to pixels.
  */
-const resolveLength = (
-    val: LayoutValue,
+const resolveTerm = (
+    val: LayoutTerm,
     viewport: Viewport,
     parentRect: { width: number; height: number }
 ): number => {
@@ -24,6 +29,22 @@ const resolveLength = (
     }
 };
 
+/**
+ * Resolves a unit value to a raw pixel length (magnitude only).
+ * Calc values are the sum of the primary term and their extra `terms`.
+ */
+const resolveLength = (
+    val: LayoutValue,
+    viewport: Viewport,
+    parentRect: { width: number; height: number }
+): number => {
+    let length = resolveTerm(val, viewport, parentRect);
+    if (val.terms) {
+        val.terms.forEach((term) => { length += resolveTerm(term, viewport, parentRect); });
+    }
+    return length;
+};
+
 /**
  * Converts a specific DSL value + Anchor to absolute canvas coordinate.
  */
@@ -45,18 +66,42 @@ export const convertOffsetToAbsolute = (
 
   if (axis === 'x') {
       const a = anchor as AnchorX;
-      if (a === 'left') return refRect.x + length;
+      if (a === 'left' || a === 'stretch') return refRect.x + length;
       if (a === 'right') return refRect.x + refRect.width - length - elementSize;
       if (a === 'center') return refRect.x + (refRect.width / 2) + length - (elementSize / 2);
   } else {
       const a = anchor as AnchorY;
-      if (a === 'top') return refRect.y + length;
+      if (a === 'top' || a === 'stretch') return refRect.y + length;
       if (a === 'bottom') return refRect.y + refRect.height - length - elementSize;
       if (a === 'center') return refRect.y + (refRect.height / 2) + length - (elementSize / 2);
   }
   return 0;
 };
 
+/**
+ * Measures the pixel offset of an absolute coordinate from the anchor edge of the reference frame.
+ */
+const absoluteToPixelOffset = (
+  absPos: number,
+  anchor: AnchorX | AnchorY,
+  axis: 'x' | 'y',
+  elementSize: number,
+  refRect: { x: number; y: number; width: number; height: number }
+): number => {
+    if (axis === 'x') {
+        const a = anchor as AnchorX;
+        if (a === 'left' || a === 'stretch') return absPos - refRect.x;
+        if (a === 'right') return refRect.x + refRect.width - absPos - elementSize;
+        if (a === 'center') return (absPos + elementSize / 2) - (refRect.x + refRect.width / 2);
+    } else {
+        const a = anchor as AnchorY;
+        if (a === 'top' || a === 'stretch') return absPos - refRect.y;
+        if (a === 'bottom') return refRect.y + refRect.height - absPos - elementSize;
+        if (a === 'center') return (absPos + elementSize / 2) - (refRect.y + refRect.height / 2);
+    }
+    return 0;
+};
+
 /**
  * Converts an absolute canvas coordinate back to a relative offset value based on anchor.
  */
@@ -75,35 +120,50 @@ export const convertAbsoluteToOffset = (
         ? { x: 0, y: 0, width: viewport.width, height: viewport.height } 
         : parentRect;
 
-    let pixelOffset = 0;
-
-    if (axis === 'x') {
-        const a = anchor as AnchorX;
-        if (a === 'left') pixelOffset = absPos - refRect.x;
-        else if (a === 'right') pixelOffset = refRect.x + refRect.width - absPos - elementSize;
-        else if (a === 'center') pixelOffset = (absPos + elementSize / 2) - (refRect.x + refRect.width / 2);
-    } else {
-        const a = anchor as AnchorY;
-        if (a === 'top') pixelOffset = absPos - refRect.y;
-        else if (a === 'bottom') pixelOffset = refRect.y + refRect.height - absPos - elementSize;
-        else if (a === 'center') pixelOffset = (absPos + elementSize / 2) - (refRect.y + refRect.height / 2);
-    }
+    const pixelOffset = absoluteToPixelOffset(absPos, anchor, axis, elementSize, refRect);
 
     // Convert pixelOffset to target unit
-    switch (targetUnit) {
-        case UnitType.PX:
-            return pixelOffset;
-        case UnitType.PERCENT_PARENT_W:
-            return parentRect.width === 0 ? 0 : (pixelOffset / parentRect.width) * 100;
-        case UnitType.PERCENT_PARENT_H:
-            return parentRect.height === 0 ? 0 : (pixelOffset / parentRect.height) * 100;
-        case UnitType.VW:
-            return viewport.width === 0 ? 0 : (pixelOffset / viewport.width) * 100;
-        case UnitType.VH:
-            return viewport.height === 0 ? 0 : (pixelOffset / viewport.height) * 100;
-        default:
-            return pixelOffset;
+    return fromPixels(pixelOffset, targetUnit, viewport, parentRect);
+};
+
+/**
+ * Back-calculates a size value from pixels, keeping its unit.
+ * For calc values only the primary term absorbs the change; extra terms stay as written.
+ */
+export const valueFromPixels = (
+  pixels: number,
+  current: LayoutValue,
+  viewport: Viewport,
+  parentRect: { width: number; height: number }
+): LayoutValue => {
+    let extra = 0;
+    if (current.terms) {
+        current.terms.forEach((term) => { extra += resolveTerm(term, viewport, parentRect); });
     }
+    return { ...current, value: fromPixels(pixels - extra, current.unit, viewport, parentRect) };
+};
+
+/**
+ * Back-calculates an offset value (anchor-relative) from an absolute coordinate, keeping its unit.
+ * Like valueFromPixels, extra calc terms are preserved.
+ */
+export const offsetValueFromAbsolute = (
+  absPos: number,
+  anchor: AnchorX | AnchorY,
+  axis: 'x' | 'y',
+  elementSize: number,
+  current: LayoutValue,
+  viewport: Viewport,
+  parentRect: { x: number; y: number; width: number; height: number }
+): LayoutValue => {
+    // The primary unit decides the reference frame, as in convertOffsetToAbsolute
+    const isGlobal = current.unit === UnitType.VW || current.unit === UnitType.VH;
+    const refRect = isGlobal 
+        ? { x: 0, y: 0, width: viewport.width, height: viewport.height } 
+        : parentRect;
+
+    const pixelOffset = absoluteToPixelOffset(absPos, anchor, axis, elementSize, refRect);
+    return valueFromPixels(pixelOffset, current, viewport, parentRect);
 };
 
 /**
@@ -130,72 +190,240 @@ export const fromPixels = (pixels: number, targetUnit: UnitType, viewport: Viewp
       }
 };
 
+const ZERO_PX: LayoutValue = { value: 0, unit: UnitType.PX };
+
+/**
+ * Which dimension an `aspectRatio` derives. Height follows width, unless only the vertical
+ * axis is stretched (then width follows the stretched height). null when there is no ratio
+ * or both axes are stretched.
+ */
+export const getDerivedDimension = (layout: LayoutConfig): 'width' | 'height' | null => {
+    if (!layout.aspectRatio || layout.aspectRatio <= 0) return null;
+    const stretchX = layout.anchorX === 'stretch';
+    const stretchY = layout.anchorY === 'stretch';
+    if (stretchX && stretchY) return null;
+    return stretchY ? 'width' : 'height';
+};
+
+/**
+ * Clamps a pixel size to the element's optional min/max constraints on that axis.
+ * Max is applied before min, so min wins when the two conflict (as in CSS).
+ */
+export const clampSize = (
+  size: number,
+  layout: LayoutConfig,
+  axis: 'width' | 'height',
+  viewport: Viewport,
+  parentRect: { width: number; height: number }
+): number => {
+    const min = axis === 'width' ? layout.minWidth : layout.minHeight;
+    const max = axis === 'width' ? layout.maxWidth : layout.maxHeight;
+    let result = size;
+    if (max) result = Math.min(result, resolveLength(max, viewport, parentRect));
+    if (min) result = Math.max(result, resolveLength(min, viewport, parentRect));
+    return result;
+};
+
 /**
- * Resolves the parent rectangle (absolute runtime position)
+ * Resolves an element's width or height in pixels, honoring its min/max constraints.
+ */
+export const resolveSize = (
+  layout: LayoutConfig,
+  axis: 'width' | 'height',
+  viewport: Viewport,
+  parentRect: { width: number; height: number }
+): number => {
+    return clampSize(resolveLength(layout[axis] || ZERO_PX, viewport, parentRect), layout, axis, viewport, parentRect);
+};
+
+/**
+ * Resolves an element's absolute rect inside a known parent rect.
+ * Handles both fixed-size anchors and stretched axes (size derived from start/end insets).
+ */
+export const resolveElementRect = (
+  layout: LayoutConfig,
+  viewport: Viewport,
+  parentRect: { x: number; y: number; width: number; height: number }
+): Rect => {
+    const resolveAxis = (axis: 'x' | 'y', derivedSize?: number) => {
+        const sizeKey = axis === 'x' ? 'width' : 'height';
+        const anchor = (axis === 'x' ? layout.anchorX : layout.anchorY) || (axis === 'x' ? 'left' : 'top');
+        const start = axis === 'x' ? layout.x : layout.y;
+
+        if (anchor === 'stretch') {
+            const end = (axis === 'x' ? layout.xEnd : layout.yEnd) || ZERO_PX;
+            const startEdge = convertOffsetToAbsolute(start, anchor, axis, 0, viewport, parentRect);
+            // With a zero size, the 'right'/'bottom' anchor formula yields the end edge itself
+            const endEdge = convertOffsetToAbsolute(end, axis === 'x' ? 'right' : 'bottom', axis, 0, viewport, parentRect);
+            const size = clampSize(Math.max(0, endEdge - startEdge), layout, sizeKey, viewport, parentRect);
+            return { pos: startEdge, size };
+        }
+
+        const size = derivedSize ?? resolveSize(layout, sizeKey, viewport, parentRect);
+        return { pos: convertOffsetToAbsolute(start, anchor, axis, size, viewport, parentRect), size };
+    };
+
+    // With an aspect ratio the source axis resolves first, the other follows it
+    const derived = getDerivedDimension(layout);
+    if (derived === 'height') {
+        const h = resolveAxis('x');
+        const v = resolveAxis('y', clampSize(h.size / layout.aspectRatio!, layout, 'height', viewport, parentRect));
+        return { x: h.pos, y: v.pos, width: h.size, height: v.size };
+    }
+    if (derived === 'width') {
+        const v = resolveAxis('y');
+        const h = resolveAxis('x', clampSize(v.size * layout.aspectRatio!, layout, 'width', viewport, parentRect));
+        return { x: h.pos, y: v.pos, width: h.size, height: v.size };
+    }
+
+    const h = resolveAxis('x');
+    const v = resolveAxis('y');
+    return { x: h.pos, y: v.pos, width: h.size, height: v.size };
+};
+
+/**
+ * The stack settings of a container, or null if it positions its children absolutely.
+ */
+export const getStackConfig = (layout: LayoutConfig): StackConfig | null => {
+    if (layout.layoutMode !== 'stack') return null;
+    return layout.stack || { direction: 'column' };
+};
+
+/**
+ * The grid settings of a container, or null if it is not a grid.
+ */
+export const getGridConfig = (layout: LayoutConfig): GridConfig | null => {
+    if (layout.layoutMode !== 'grid') return null;
+    return layout.grid || { columns: [{ value: 1, unit: 'fr' }], rows: [] };
+};
+
+/**
+ * Stacks and grids position their children themselves; the children's own offsets are ignored.
+ */
+export const isAutoLayout = (layout: LayoutConfig): boolean =>
+    !!(getStackConfig(layout) || getGridConfig(layout));
+
+/**
+ * The box a container lays its children out in: its own rect, inset by stack/grid padding.
+ * Padding and gap percentages refer to the container itself.
+ */
+export const getContentRect = (container: LayoutElement, rect: Rect, viewport: Viewport): Rect => {
+    const padding = (getStackConfig(container.layout) || getGridConfig(container.layout))?.padding;
+    if (!padding) return rect;
+    const pad = Math.max(0, resolveLength(padding, viewport, rect));
+    return {
+        x: rect.x + pad,
+        y: rect.y + pad,
+        width: Math.max(0, rect.width - pad * 2),
+        height: Math.max(0, rect.height - pad * 2),
+    };
+};
+
+/**
+ * Absolute track positions of a grid container, laid out in its content box.
+ */
+export const resolveGrid = (container: LayoutElement, content: Rect, viewport: Viewport): ResolvedGrid => {
+    const grid = getGridConfig(container.layout)!;
+    const rect = container._runtime || content;
+    const columnGap = grid.columnGap ? resolveLength(grid.columnGap, viewport, rect) : 0;
+    const rowGap = grid.rowGap ? resolveLength(grid.rowGap, viewport, rect) : 0;
+    return {
+        columns: resolveTracks(grid.columns, content.x, content.width, columnGap),
+        rows: resolveTracks(grid.rows, content.y, content.height, rowGap),
+        rowGap,
+        rowSpace: { start: content.y, size: content.height },
+    };
+};
+
+/**
+ * Size of a stack item. Position is up to the stack; a stretched axis fills the content box.
+ */
+const resolveStackItemSize = (layout: LayoutConfig, viewport: Viewport, content: Rect) => {
+    let width = layout.anchorX === 'stretch'
+        ? clampSize(content.width, layout, 'width', viewport, content)
+        : resolveSize(layout, 'width', viewport, content);
+    let height = layout.anchorY === 'stretch'
+        ? clampSize(content.height, layout, 'height', viewport, content)
+        : resolveSize(layout, 'height', viewport, content);
+    const derived = getDerivedDimension(layout);
+    if (derived === 'height') height = clampSize(width / layout.aspectRatio!, layout, 'height', viewport, content);
+    if (derived === 'width') width = clampSize(height * layout.aspectRatio!, layout, 'width', viewport, content);
+    return { width, height };
+};
+
+/**
+ * Resolves the parent rectangle (absolute runtime position).
+ * For stack containers this is the content box, which is what child values are relative to.
+ * `elementsById` is the laid-out document by id, built once by callers that resolve many parents.
  */
 export const getParentRect = (
   parentId: string | null | undefined,
-  elements: LayoutElement[],
+  elementsById: Map<string, LayoutElement>,
   viewport: Viewport
 ): { x: number; y: number; width: number; height: number; name?: string } => {
-  if (!parentId || parentId === 'root') {
+  if (!parentId || parentId === ROOT_PARENT_ID) {
     return { x: 0, y: 0, width: viewport.width, height: viewport.height, name: 'Canvas' };
   }
-  const parent = elements.find((el) => el.id === parentId);
+  const parent = elementsById.get(parentId);
   if (parent && parent._runtime) {
     return {
-      x: parent._runtime.x,
-      y: parent._runtime.y,
-      width: parent._runtime.width,
-      height: parent._runtime.height,
+      ...getContentRect(parent, parent._runtime, viewport),
       name: parent.name,
     };
   }
   return { x: 0, y: 0, width: viewport.width, height: viewport.height, name: 'Canvas' };
 };
 
+// Elements that may parent others. isContainer defaults to true; a hidden element keeps
+// containing unless the document says otherwise (hiddenContains).
+const canContain = (el: LayoutElement) =>
+  !!el._runtime && el.layout.isContainer !== false && !(el.hidden && el.hiddenContains === false);
+
 /**
- * Calculates the absolute runtime positions for all elements, resolving hierarchies
+ * Picks the parent among containers holding a point: the visually topmost (highest z-index)
+ * wins, then the smallest (tightest fit), then the earliest in `candidates`.
  */
-export const calculateRuntimePositions = (
-  elements: LayoutElement[],
-  viewport: Viewport
-): LayoutElement[] => {
-  // Pass 1: Estimate DIMENSIONS & POSITIONS relative to VIEWPORT
-  // This gives us the "visual geometry" to determine who is inside who.
-  const estimatedElements = elements.map((el) => {
-    const parentRect = { x: 0, y: 0, width: viewport.width, height: viewport.height };
-    const width = toPixels(el.layout.width, viewport, parentRect);
-    const height = toPixels(el.layout.height, viewport, parentRect);
-    
-    // Calculate estimated absolute position assuming viewport parent
-    const x = convertOffsetToAbsolute(el.layout.x, el.layout.anchorX || 'left', 'x', width, viewport, parentRect);
-    const y = convertOffsetToAbsolute(el.layout.y, el.layout.anchorY || 'top', 'y', height, viewport, parentRect);
-    
-    return {
-      ...el,
-      _runtime: { x, y, width, height, parentId: null }
-    };
-  });
-
+const pickContainer = (candidates: LayoutElement[], selfId: string): LayoutElement | null => {
+    let best: LayoutElement | null = null;
+    let bestArea = 0;
+    for (const p of candidates) {
+        if (p.id === selfId) continue;
+        const area = p._runtime!.width * p._runtime!.height;
+        if (best) {
+            const zDiff = (p.layout.zIndex || 0) - (best.layout.zIndex || 0);
+            if (zDiff < 0 || (zDiff === 0 && !(area < bestArea))) continue;
+        }
+        best = p;
+        bestArea = area;
+    }
+    return best;
+};
 
-  // Pass 2: Determine Parenting based on Containment
-  // We don't check Z-Index strict inequality anymore for *validity*, but we use it for *priority*.
-  const withParents = estimatedElements.map((child) => {
-    const cx = child._runtime!.x + child._runtime!.width / 2;
-    const cy = child._runtime!.y + child._runtime!.height / 2;
+// Candidates `picked` beat only by coming first: same z-index and the same area
+const findTiedContainers = (candidates: LayoutElement[], picked: LayoutElement, selfId: string): LayoutElement[] => {
+    const area = (p: LayoutElement) => p._runtime!.width * p._runtime!.height;
+    return candidates.filter((p) =>
+        p.id !== selfId && p.id !== picked.id &&
+        (p.layout.zIndex || 0) === (picked.layout.zIndex || 0) && area(p) === area(picked)
+    );
+};
 
-    const potentialParents = estimatedElements.filter((p) => {
-      if (p.id === child.id) return false;
-      
-      // EXPLICIT CONTAINER CHECK
-      // If isContainer is explicitly false, skip.
-      // Default to true if undefined.
-      if (p.layout.isContainer === false) return false;
+/**
+ * Finds the container whose box holds the center point of `rect`.
+ * This is the single containment rule shared by the layout engine and the editor's drop logic.
+ */
+export const findContainerAt = (
+  rect: Rect,
+  candidates: LayoutElement[],
+  selfId: string
+): LayoutElement | null => {
+    const cx = rect.x + rect.width / 2;
+    const cy = rect.y + rect.height / 2;
 
+    // Center point containment
+    const potentialParents = candidates.filter((p) => {
+      if (!canContain(p)) return false;
       const pRect = p._runtime!;
-      
-      // Center Point Containment
       return (
         cx >= pRect.x &&
         cx <= pRect.x + pRect.width &&
@@ -204,70 +432,681 @@ export const calculateRuntimePositions = (
       );
     });
 
-    // Sort: 
-    // 1. Z-Index Descending (Visually topmost container wins)
-    // 2. Size Ascending (Smallest container wins - tighter fit)
-    potentialParents.sort((a, b) => {
-        const zDiff = (b.layout.zIndex || 0) - (a.layout.zIndex || 0);
-        if (zDiff !== 0) return zDiff;
-        // Secondary sort: smallest area wins
-        const aArea = a._runtime!.width * a._runtime!.height;
-        const bArea = b._runtime!.width * b._runtime!.height;
-        return aArea - bArea;
-    });
+    return pickContainer(potentialParents, selfId);
+};
 
-    const parent = potentialParents[0];
+/**
+ * Resolves an element's explicit `parent`.
+ * Returns undefined when there is none (or it names an unknown id / the element itself),
+ * meaning the caller should fall back to containment. null means "pinned to the canvas".
+ */
+export const getExplicitParentId = (
+  el: LayoutElement,
+  elementIds: Set<string>
+): string | null | undefined => {
+    if (!el.parent) return undefined;
+    if (el.parent === ROOT_PARENT_ID) return null;
+    if (el.parent !== el.id && elementIds.has(el.parent)) return el.parent;
+    return undefined;
+};
 
-    if (parent) {
-      return {
-        ...child,
-        _runtime: { ...child._runtime!, parentId: parent.id }
-      };
+/**
+ * Re-anchors an element at a new absolute rect (the result of a drag or resize).
+ * Detects the logical parent at that spot, bumps the z-index above it if needed and
+ * back-calculates the relative layout values. `_runtime` is set to the rect exactly
+ * so the element does not "jump" on release.
+ */
+export const placeElementAtRect = (
+  el: LayoutElement,
+  rect: Rect,
+  elements: LayoutElement[],
+  viewport: Viewport
+): LayoutElement => {
+    // 1. Identify the logical Parent: a locked parent wins, otherwise purely visual overlap
+    const byId = new Map(elements.map(e => [e.id, e]));
+    let explicitParentId = getExplicitParentId(el, new Set(byId.keys()));
+
+    // A stack or grid lets go of an item once its center is dragged outside of it
+    const lockedParent = explicitParentId ? byId.get(explicitParentId) : null;
+    let released = false;
+    if (lockedParent && lockedParent._runtime && isAutoLayout(lockedParent.layout)) {
+        const p = lockedParent._runtime;
+        const cx = rect.x + rect.width / 2;
+        const cy = rect.y + rect.height / 2;
+        if (cx < p.x || cx > p.x + p.width || cy < p.y || cy > p.y + p.height) {
+            explicitParentId = undefined;
+            released = true;
+        }
     }
-    return child;
-  });
 
-  // Pass 3: Final Recalculation with Known Parents
-  // Topologically sort by zIndex (lowest first) so parents are calculated before children
-  // Note: We use the Original Elements but attach the found ParentID
-  const finalMap = new Map<string, LayoutElement>();
-  
-  const calculateElement = (id: string, stack: string[] = []) => {
-      if (finalMap.has(id)) return finalMap.get(id)!;
-      if (stack.includes(id)) return withParents.find(e => e.id === id)!; // Cycle detected
+    const newParent = explicitParentId === undefined
+        ? findContainerAt(rect, elements, el.id)
+        : (explicitParentId && byId.get(explicitParentId)) || null;
+    const newParentId = newParent ? newParent.id : null;
+    // Stack items are positioned by the stack, so only their size is back-calculated;
+    // grid items are sized by their cells, so only the cell is
+    const inStack = !!(newParent && getStackConfig(newParent.layout));
+    const inGrid = !!(newParent && getGridConfig(newParent.layout));
+
+    // 2. AUTO-CORRECT Z-INDEX
+    // If we decided it's a parent, but current Z is lower, bump it.
+    let newZIndex = el.layout.zIndex;
+    if (newParent && (el.layout.zIndex <= newParent.layout.zIndex)) {
+        newZIndex = newParent.layout.zIndex + 1;
+    }
+
+    // 3. Get Parent Geometry (for layout config calculation)
+    const parentRect = getParentRect(newParentId, byId, viewport);
+    const newLayout = { ...el.layout, zIndex: newZIndex };
+    delete newLayout.gridCell;
+
+    if (inGrid) {
+        // Snap to the cells the rect covers
+        const grid = resolveGrid(newParent!, parentRect, viewport);
+        newLayout.gridCell = getCellAt(rect, grid);
+        const { parent, ...unparented } = el;
+        return {
+            ...unparented,
+            parent: newParentId!,
+            layout: newLayout,
+            _runtime: { ...layoutGrid(grid, [{ id: el.id, cell: newLayout.gridCell }])[el.id], parentId: newParentId }
+        };
+    }
+
+    // The new parent may tighten percentage constraints, so clamp against it (top-left stays put)
+    const placed = {
+        ...rect,
+        width: clampSize(rect.width, newLayout, 'width', viewport, parentRect),
+        height: clampSize(rect.height, newLayout, 'height', viewport, parentRect),
+    };
+    const derived = getDerivedDimension(newLayout);
+    if (derived === 'height') placed.height = clampSize(placed.width / newLayout.aspectRatio!, newLayout, 'height', viewport, parentRect);
+    if (derived === 'width') placed.width = clampSize(placed.height * newLayout.aspectRatio!, newLayout, 'width', viewport, parentRect);
+
+    // 4. Back-Calculate offsets for CONFIG ONLY
+    // Fresh value objects: the previous layout may still be referenced (e.g. by undo history)
+    if (!inStack) {
+        newLayout.x = offsetValueFromAbsolute(placed.x, newLayout.anchorX || 'left', 'x', placed.width, newLayout.x, viewport, parentRect);
+        newLayout.y = offsetValueFromAbsolute(placed.y, newLayout.anchorY || 'top', 'y', placed.height, newLayout.y, viewport, parentRect);
+    }
+
+    // A stretched axis stores its end inset instead of a size; a derived dimension stores nothing
+    if (newLayout.anchorX === 'stretch') {
+        if (!inStack) newLayout.xEnd = offsetValueFromAbsolute(placed.x, 'right', 'x', placed.width, newLayout.xEnd || ZERO_PX, viewport, parentRect);
+    } else if (derived !== 'width') {
+        newLayout.width = valueFromPixels(placed.width, newLayout.width || ZERO_PX, viewport, parentRect);
+    }
+    if (newLayout.anchorY === 'stretch') {
+        if (!inStack) newLayout.yEnd = offsetValueFromAbsolute(placed.y, 'bottom', 'y', placed.height, newLayout.yEnd || ZERO_PX, viewport, parentRect);
+    } else if (derived !== 'height') {
+        newLayout.height = valueFromPixels(placed.height, newLayout.height || ZERO_PX, viewport, parentRect);
+    }
+
+    // Joining a stack locks the parent, since the item's own x/y no longer say where it is
+    const { parent, ...unparented } = el;
+    const nextParent = inStack ? newParentId! : (released ? undefined : parent);
+
+    // CRITICAL: We explicitly write the `_runtime` values here to match the drag result exactly.
+    return {
+        ...unparented,
+        ...(nextParent ? { parent: nextParent } : {}),
+        layout: newLayout,
+        _runtime: { ...placed, parentId: newParentId }
+    };
+};
+
+
+// Effective layout (breakpoints applied) with the Pass 1 estimate and the Pass 2 parent in `_runtime`
+type LayoutNode = LayoutElement;
+
+/**
+ * The engine's working state for one laid-out document: containment index, parent -> children
+ * graph and placed elements. Handed out inside a LayoutState so relayoutElement can update it.
+ */
+export interface LayoutGraph {
+  viewport: Viewport;
+  // The result this graph currently describes; relayoutElement moves it on
+  result: LayoutElement[];
+  // Document order
+  ids: string[];
+  indexOf: Map<string, number>;
+  elementIds: Set<string>;
+  nodes: Map<string, LayoutNode>;
+  // Parent id -> child ids in document order
+  childrenOf: Map<string, string[]>;
+  // Ids of elements that can contain others, by estimated rect
+  containers: SpatialIndex<string>;
+  // Pass 3 results: effective layout with the final `_runtime`
+  placed: Map<string, LayoutElement>;
+  // Element id -> containers that tied with the one Pass 2 picked
+  ties: Map<string, string[]>;
+  // Findings behind the diagnostics; computed on first request, then kept up to date
+  issues: LayoutIssues | null;
+}
+
+interface LayoutIssues {
+  // Containers by final rect, the containment rule applied after Pass 3
+  settled: SpatialIndex<string>;
+  // Cycle member -> its cycle, starting from itself
+  cycleOf: Map<string, string[]>;
+  // Element id -> the container its final box is centered in, where that is not its parent
+  settledParents: Map<string, string | null>;
+  // Element id -> parent dimensions that are zero while it uses percentages of them
+  zeroSizeAxes: Map<string, ('width' | 'height')[]>;
+}
+
+/**
+ * Something the layout resolved, but not unambiguously. Reported per element:
+ * - cycle: its explicit parents form a loop, which the layout cuts where it first reaches it
+ * - tie: several containers hold its estimate equally well; document order picked one
+ * - parent-changed: its final box is centered in a different container than its estimate
+ * - zero-size-parent: it uses %p_w / %p_h of a parent that has no width / height
+ */
+export interface LayoutDiagnostic {
+  kind: 'cycle' | 'tie' | 'parent-changed' | 'zero-size-parent';
+  elementId: string;
+  // The other elements involved (cycle members, tied containers, the parents concerned)
+  relatedIds: string[];
+  message: string;
+}
+
+export interface LayoutResult {
+  elements: LayoutElement[];
+  diagnostics: LayoutDiagnostic[];
+}
+
+/**
+ * A laid-out document with the graph behind it. relayoutElement updates the graph in place and
+ * hands it on to the state it returns, so a state is current until it is edited once; an older
+ * one still works, at the cost of a full layout.
+ */
+export interface LayoutState {
+  // The elements as they were passed in, and laid out
+  document: LayoutElement[];
+  elements: LayoutElement[];
+  graph: LayoutGraph;
+}
+
+const isCurrent = (state: LayoutState) => state.graph.result === state.elements;
+
+// Pass 1: Estimate DIMENSIONS & POSITIONS relative to VIEWPORT
+// This gives us the "visual geometry" to determine who is inside who.
+const estimateNode = (el: LayoutElement, viewport: Viewport): LayoutNode => {
+  const parentRect = { x: 0, y: 0, width: viewport.width, height: viewport.height };
+  const rect = resolveElementRect(el.layout, viewport, parentRect);
+  return { ...el, _runtime: { ...rect, parentId: null } };
+};
 
-      const el = withParents.find(e => e.id === id)!;
+// Pass 2: Determine Parenting based on Containment
+// We don't check Z-Index strict inequality anymore for *validity*, but we use it for *priority*.
+// An explicit `parent` skips containment entirely so it survives every viewport.
+const assignParent = (graph: LayoutGraph, node: LayoutNode): LayoutNode => {
+  let parentId = getExplicitParentId(node, graph.elementIds);
+  graph.ties.delete(node.id);
+  if (parentId === undefined) {
+    const rect = node._runtime!;
+    const candidates = graph.containers.queryPoint(rect.x + rect.width / 2, rect.y + rect.height / 2)
+      .map((id) => graph.nodes.get(id)!);
+    const parent = pickContainer(candidates, node.id);
+    const tied = parent ? findTiedContainers(candidates, parent, node.id) : [];
+    if (tied.length > 0) graph.ties.set(node.id, tied.map(p => p.id));
+    parentId = parent?.id ?? null;
+  }
+  return { ...node, _runtime: { ...node._runtime!, parentId } };
+};
+
+// Pass 3: Final Recalculation with Known Parents
+// Places the given elements (and any unplaced ancestors), parents before their children.
+const placeElements = (graph: LayoutGraph, ids: string[]) => {
+  const { viewport, nodes, childrenOf, placed } = graph;
+
+  // Stacks and grids place all of their children at once, in document order
+  const slotCache = new Map<string, Record<string, Rect>>();
+  const getSlots = (container: LayoutElement, content: Rect) => {
+      if (slotCache.has(container.id)) return slotCache.get(container.id)!;
+      const children = (childrenOf.get(container.id) || []).map(id => nodes.get(id)!);
+
+      if (getGridConfig(container.layout)) {
+          const gridSlots = layoutGrid(
+              resolveGrid(container, content, viewport),
+              children.map(c => ({ id: c.id, cell: c.layout.gridCell }))
+          );
+          slotCache.set(container.id, gridSlots);
+          return gridSlots;
+      }
+
+      const stackConfig = getStackConfig(container.layout)!;
+      const crossDim = stackConfig.direction === 'row' ? 'height' : 'width';
+      const slots = layoutStack(
+          content,
+          {
+              direction: stackConfig.direction,
+              gap: stackConfig.gap ? resolveLength(stackConfig.gap, viewport, container._runtime!) : 0,
+              mainAlign: stackConfig.mainAlign || 'start',
+              crossAlign: stackConfig.crossAlign || 'start',
+              wrap: !!stackConfig.wrap,
+          },
+          children.map(c => ({ id: c.id, ...resolveStackItemSize(c.layout, viewport, content) })),
+          (childId, size) => clampSize(size, nodes.get(childId)!.layout, crossDim, viewport, content)
+      );
+      slotCache.set(container.id, slots);
+      return slots;
+  };
+
+  const placeElement = (el: LayoutNode, parentEl: LayoutElement | undefined) => {
       let parentRect = { x: 0, y: 0, width: viewport.width, height: viewport.height };
+      let slot: Rect | undefined;
 
-      if (el._runtime?.parentId) {
-          const parentEl = calculateElement(el._runtime.parentId, [...stack, id]);
-          if (parentEl && parentEl._runtime) {
-              parentRect = {
-                  x: parentEl._runtime.x,
-                  y: parentEl._runtime.y,
-                  width: parentEl._runtime.width,
-                  height: parentEl._runtime.height
-              };
-          }
+      if (parentEl && parentEl._runtime) {
+          parentRect = getContentRect(parentEl, parentEl._runtime, viewport);
+          if (isAutoLayout(parentEl.layout)) slot = getSlots(parentEl, parentRect)[el.id];
       }
 
-      const width = toPixels(el.layout.width, viewport, parentRect);
-      const height = toPixels(el.layout.height, viewport, parentRect);
-      const x = convertOffsetToAbsolute(el.layout.x, el.layout.anchorX || 'left', 'x', width, viewport, parentRect);
-      const y = convertOffsetToAbsolute(el.layout.y, el.layout.anchorY || 'top', 'y', height, viewport, parentRect);
+      const rect = slot || resolveElementRect(el.layout, viewport, parentRect);
 
       const res = {
           ...el,
           _runtime: {
-              x, y, width, height, parentId: el._runtime!.parentId
+              ...rect, parentId: el._runtime!.parentId
           }
       };
-      finalMap.set(id, res);
+      placed.set(el.id, res);
       return res;
   };
 
-  withParents.forEach(el => calculateElement(el.id));
-  
-  // Return in original order but with updated runtime
-  return elements.map(el => finalMap.get(el.id)!);
-};
\ No newline at end of file
+  // Walks up to the first placed ancestor, then places the chain top-down. Iterative, so
+  // deep nesting cannot overflow the call stack.
+  const calculateElement = (id: string) => {
+      const chain: LayoutNode[] = [];
+      const onChain = new Set<string>();
+      let current = nodes.get(id);
+      while (current && !placed.has(current.id) && !onChain.has(current.id)) {
+          chain.push(current);
+          onChain.add(current.id);
+          const parentId = current._runtime!.parentId;
+          current = parentId ? nodes.get(parentId) : undefined;
+      }
+      // Cycle detected: the topmost link is placed in the unresolved estimate of its parent
+      let parentEl = current && (placed.get(current.id) || current);
+      for (let i = chain.length - 1; i >= 0; i--) {
+          parentEl = placeElement(chain[i], parentEl);
+      }
+  };
+
+  ids.forEach(calculateElement);
+};
+
+// Return in original order but with updated runtime. Unchanged elements keep their identity.
+const collectResult = (graph: LayoutGraph, documentElements: LayoutElement[]): LayoutState => {
+  const elements = documentElements.map((el) => {
+    const runtime = graph.placed.get(el.id)!._runtime;
+    return el._runtime === runtime ? el : { ...el, _runtime: runtime };
+  });
+  graph.result = elements;
+  return { document: documentElements, elements, graph };
+};
+
+/**
+ * Lays out the document, keeping the graph for relayoutElement and getLayoutDiagnostics.
+ * Breakpoint overrides matching the viewport are applied; the returned elements keep their base `layout`.
+ */
+export const layoutDocument = (
+  documentElements: LayoutElement[],
+  viewport: Viewport
+): LayoutState => {
+  const estimated = withEffectiveLayouts(documentElements, viewport).map(el => estimateNode(el, viewport));
+
+  const graph: LayoutGraph = {
+    viewport,
+    result: [],
+    ids: estimated.map(el => el.id),
+    indexOf: new Map(estimated.map((el, i) => [el.id, i])),
+    elementIds: new Set(estimated.map(el => el.id)),
+    nodes: new Map(estimated.map(el => [el.id, el])),
+    childrenOf: new Map(),
+    containers: createSpatialIndex(
+      estimated.flatMap((el, order) => canContain(el) ? [{ rect: el._runtime!, value: el.id, order }] : [])
+    ),
+    placed: new Map(),
+    ties: new Map(),
+    issues: null,
+  };
+
+  estimated.forEach((el) => {
+    const node = assignParent(graph, el);
+    graph.nodes.set(el.id, node);
+    const parentId = node._runtime!.parentId;
+    if (!parentId) return;
+    const siblings = graph.childrenOf.get(parentId);
+    if (siblings) siblings.push(el.id);
+    else graph.childrenOf.set(parentId, [el.id]);
+  });
+
+  placeElements(graph, graph.ids);
+  return collectResult(graph, documentElements);
+};
+
+/**
+ * Calculates the absolute runtime positions for all elements, resolving hierarchies.
+ * Breakpoint overrides matching the viewport are applied; the returned elements keep their base `layout`.
+ */
+export const calculateRuntimePositions = (
+  documentElements: LayoutElement[],
+  viewport: Viewport
+): LayoutElement[] => layoutDocument(documentElements, viewport).elements;
+
+// Members of the parent cycle reached by walking up from `startId`, if any
+const findCycleAbove = (startId: string, parentOf: (id: string) => string | null): string[] => {
+  const seen = new Set<string>();
+  let current: string | null = startId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    current = parentOf(current);
+  }
+  if (!current) return [];
+  const members = [current];
+  for (let next = parentOf(current); next && next !== current; next = parentOf(next)) members.push(next);
+  return members;
+};
+
+// Stores `cycle` under each of its members, rotated to start there
+const recordCycle = (cycleOf: Map<string, string[]>, cycle: string[]) => {
+  cycle.forEach((id, i) => cycleOf.set(id, [...cycle.slice(i), ...cycle.slice(0, i)]));
+};
+
+const findAllCycles = (graph: LayoutGraph): Map<string, string[]> => {
+  const cycleOf = new Map<string, string[]>();
+  const visited = new Set<string>();
+  graph.ids.forEach((startId) => {
+    // Walk up to the first element seen before; if this walk saw it, the walk closed a cycle
+    const path: string[] = [];
+    let current: string | null = startId;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      path.push(current);
+      current = graph.nodes.get(current)!._runtime!.parentId ?? null;
+    }
+    const start = current ? path.indexOf(current) : -1;
+    if (start !== -1) recordCycle(cycleOf, path.slice(start));
+  });
+  return cycleOf;
+};
+
+const PERCENT_AXES = [
+  { unit: UnitType.PERCENT_PARENT_W, dimension: 'width' },
+  { unit: UnitType.PERCENT_PARENT_H, dimension: 'height' },
+] as const;
+
+// Whether any of the element's own values (not its stack/grid settings) use `unit`
+const usesUnit = (layout: LayoutConfig, unit: UnitType) =>
+  [layout.x, layout.y, layout.width, layout.height, layout.xEnd, layout.yEnd,
+   layout.minWidth, layout.maxWidth, layout.minHeight, layout.maxHeight]
+    .some(val => !!val && (val.unit === unit || !!val.terms?.some(term => term.unit === unit)));
+
+// Applies the containment rule to the element's final box; explicit parents are not checked
+const checkSettledParent = (graph: LayoutGraph, issues: LayoutIssues, id: string) => {
+  issues.settledParents.delete(id);
+  const node = graph.nodes.get(id)!;
+  if (getExplicitParentId(node, graph.elementIds) !== undefined) return;
+  const rect = graph.placed.get(id)!._runtime!;
+  const candidates = issues.settled.queryPoint(rect.x + rect.width / 2, rect.y + rect.height / 2)
+    .map(c => graph.placed.get(c)!);
+  const settledId = pickContainer(candidates, id)?.id ?? null;
+  if (settledId !== (node._runtime!.parentId ?? null)) issues.settledParents.set(id, settledId);
+};
+
+const checkZeroSizeParent = (graph: LayoutGraph, issues: LayoutIssues, id: string) => {
+  issues.zeroSizeAxes.delete(id);
+  const node = graph.nodes.get(id)!;
+  const parent = node._runtime!.parentId ? graph.placed.get(node._runtime!.parentId) : undefined;
+  if (!parent) return;
+  const content = getContentRect(parent, parent._runtime!, graph.viewport);
+  const axes = PERCENT_AXES
+    .filter(({ unit, dimension }) => content[dimension] === 0 && usesUnit(node.layout, unit))
+    .map(({ dimension }) => dimension);
+  if (axes.length > 0) issues.zeroSizeAxes.set(id, axes);
+};
+
+const computeIssues = (graph: LayoutGraph): LayoutIssues => {
+  const { ids, placed } = graph;
+  const issues: LayoutIssues = {
+    settled: createSpatialIndex(
+      ids.flatMap((id, order) => canContain(placed.get(id)!) ? [{ rect: placed.get(id)!._runtime!, value: id, order }] : [])
+    ),
+    cycleOf: findAllCycles(graph),
+    settledParents: new Map(),
+    zeroSizeAxes: new Map(),
+  };
+  ids.forEach((id) => {
+    checkSettledParent(graph, issues, id);
+    checkZeroSizeParent(graph, issues, id);
+  });
+  return issues;
+};
+
+// Beyond this many moved containers, checking every element is cheaper than scanning for each box
+const MAX_SCANNED_REGIONS = 32;
+
+/**
+ * Lays out `documentElements` after an edit to the element `id` only: `state` is the layout
+ * of the same document before the edit (every other element is one of `state.document` or
+ * `state.elements`). Recomputes that element, elements whose containment it may change, their
+ * descendants and their stack/grid siblings; everything else keeps its rect. The result is
+ * identical to layoutDocument (scripts/checkIncrementalLayout.ts verifies this), which it
+ * falls back to when `state` is missing, no longer current or not of this document.
+ */
+export const relayoutElement = (
+  state: LayoutState | null,
+  documentElements: LayoutElement[],
+  id: string,
+  viewport: Viewport
+): LayoutState => {
+  const graph = state && isCurrent(state) ? state.graph : null;
+  const index = graph?.indexOf.get(id);
+  if (
+    !graph || index === undefined ||
+    graph.viewport.width !== viewport.width || graph.viewport.height !== viewport.height ||
+    documentElements.length !== graph.ids.length || documentElements[index].id !== id ||
+    documentElements.some((el, i) => i !== index && el !== state!.document[i] && el !== state!.elements[i])
+  ) {
+    return layoutDocument(documentElements, viewport);
+  }
+  // The graph is updated in place and moves on to the new state
+  graph.viewport = viewport;
+  const { nodes, childrenOf, containers, placed, indexOf } = graph;
+
+  const before = nodes.get(id)!;
+  const after = estimateNode(withEffectiveLayouts([documentElements[index]], viewport)[0], viewport);
+  containers.remove(id);
+  if (canContain(after)) containers.insert(id, after._runtime!, index);
+  nodes.set(id, after);
+
+  // Containment can only change for the element itself and for elements centered in its old or new box
+  const regions = [before, after].filter(canContain).map(node => node._runtime!);
+  const recheck = new Set([id]);
+  if (regions.length > 0) {
+    nodes.forEach((node) => {
+      const { x, y, width, height } = node._runtime!;
+      const cx = x + width / 2;
+      const cy = y + height / 2;
+      if (regions.some(r => cx >= r.x && cx <= r.x + r.width && cy >= r.y && cy <= r.y + r.height)) recheck.add(node.id);
+    });
+  }
+
+  // Pass 2 again where needed, remembering the parents that changed
+  const previousParents = new Map<string, string | null>([[id, before._runtime!.parentId]]);
+  recheck.forEach((nodeId) => {
+    const previous = nodeId === id ? before._runtime!.parentId : nodes.get(nodeId)!._runtime!.parentId;
+    const node = assignParent(graph, nodes.get(nodeId)!);
+    nodes.set(nodeId, node);
+    if (node._runtime!.parentId !== previous) previousParents.set(nodeId, previous);
+  });
+  const newParentOf = (nodeId: string) => nodes.get(nodeId)?._runtime!.parentId ?? null;
+  const oldParentOf = (nodeId: string) => previousParents.has(nodeId) ? previousParents.get(nodeId)! : newParentOf(nodeId);
+
+  // Move the changed edges, keeping the old child lists for the walk below
+  const byDocumentOrder = (a: string, b: string) => indexOf.get(a)! - indexOf.get(b)!;
+  const oldChildrenOf = new Map<string, string[]>();
+  const touchedParents = new Set<string | null>();
+  previousParents.forEach((previous, nodeId) => {
+    const parentId = newParentOf(nodeId);
+    touchedParents.add(previous);
+    touchedParents.add(parentId);
+    if (parentId === previous) return;
+    [previous, parentId].forEach((p) => {
+      if (p && !oldChildrenOf.has(p)) oldChildrenOf.set(p, [...(childrenOf.get(p) || [])]);
+    });
+    if (previous) {
+      const siblings = childrenOf.get(previous)!;
+      siblings.splice(siblings.indexOf(nodeId), 1);
+      if (siblings.length === 0) childrenOf.delete(previous);
+    }
+    if (parentId) {
+      const siblings = childrenOf.get(parentId) || [];
+      siblings.push(nodeId);
+      siblings.sort(byDocumentOrder);
+      childrenOf.set(parentId, siblings);
+    }
+  });
+  const childrenEither = (parentId: string) => [
+    ...(childrenOf.get(parentId) || []),
+    ...(oldChildrenOf.get(parentId) || []),
+  ];
+
+  const dirty = new Set(previousParents.keys());
+  // A cycle is broken wherever the layout first reaches it, so one above a changed element,
+  // before or after the edit, is laid out again as a whole
+  const oldCycles: string[][] = [];
+  const newCycles: string[][] = [];
+  previousParents.forEach((_, nodeId) => {
+    oldCycles.push(findCycleAbove(nodeId, oldParentOf));
+    newCycles.push(findCycleAbove(nodeId, newParentOf));
+  });
+  [...oldCycles, ...newCycles].forEach(cycle => cycle.forEach(member => dirty.add(member)));
+  // A stack or grid places all of its children together, so they move as a group
+  touchedParents.forEach((parentId) => {
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent && isAutoLayout(parent.layout)) childrenEither(parentId!).forEach(childId => dirty.add(childId));
+  });
+  // Descendants follow their parents, in the old graph and the new one
+  const queue = [...dirty];
+  while (queue.length > 0) {
+    childrenEither(queue.pop()!).forEach((childId) => {
+      if (dirty.has(childId)) return;
+      dirty.add(childId);
+      queue.push(childId);
+    });
+  }
+
+  const { issues } = graph;
+  const oldRegions = issues ? [...dirty].map(dirtyId => placed.get(dirtyId)!).filter(canContain).map(el => el._runtime!) : [];
+  dirty.forEach(dirtyId => placed.delete(dirtyId));
+  placeElements(graph, [...dirty].sort(byDocumentOrder));
+
+  if (issues) {
+    // An old cycle may only have been above a changed element, and still be there
+    oldCycles.forEach(cycle => cycle.forEach(member => issues.cycleOf.delete(member)));
+    [...oldCycles, ...newCycles].forEach((cycle) => {
+      if (cycle.length > 0) recordCycle(issues.cycleOf, findCycleAbove(cycle[0], newParentOf));
+    });
+    // The final containment of an element changes with its own box or a container's box around it
+    const regions = [...oldRegions];
+    dirty.forEach((dirtyId) => {
+      issues.settled.remove(dirtyId);
+      const el = placed.get(dirtyId)!;
+      if (!canContain(el)) return;
+      issues.settled.insert(dirtyId, el._runtime!, indexOf.get(dirtyId)!);
+      regions.push(el._runtime!);
+    });
+    const settledRecheck = regions.length > MAX_SCANNED_REGIONS ? graph.ids : graph.ids.filter((nodeId) => {
+      if (dirty.has(nodeId)) return true;
+      const { x, y, width, height } = placed.get(nodeId)!._runtime!;
+      const cx = x + width / 2;
+      const cy = y + height / 2;
+      return regions.some(r => cx >= r.x && cx <= r.x + r.width && cy >= r.y && cy <= r.y + r.height);
+    });
+    settledRecheck.forEach(nodeId => checkSettledParent(graph, issues, nodeId));
+    dirty.forEach(dirtyId => checkZeroSizeParent(graph, issues, dirtyId));
+  }
+  return collectResult(graph, documentElements);
+};
+
+
+const describeIssues = (graph: LayoutGraph, issues: LayoutIssues): LayoutDiagnostic[] => {
+  const { nodes, ties, indexOf } = graph;
+  const nameOf = (id: string | null) => id ? `"${nodes.get(id)!.name}"` : 'the canvas';
+  const listNames = (ids: string[]) => {
+    const names = ids.map(nameOf);
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  };
+  const affected = new Set([
+    ...issues.cycleOf.keys(), ...ties.keys(), ...issues.settledParents.keys(), ...issues.zeroSizeAxes.keys(),
+  ]);
+
+  return [...affected].sort((a, b) => indexOf.get(a)! - indexOf.get(b)!).flatMap((id) => {
+    const parentId = nodes.get(id)!._runtime!.parentId ?? null;
+    const diagnostics: LayoutDiagnostic[] = [];
+
+    const cycle = issues.cycleOf.get(id);
+    if (cycle) {
+      diagnostics.push({
+        kind: 'cycle',
+        elementId: id,
+        relatedIds: cycle.slice(1),
+        message: `Parent cycle ${[...cycle, id].map(nameOf).join(' → ')}. The layout cuts it where it first reaches it, so positions depend on document order.`,
+      });
+    }
+    const tied = ties.get(id);
+    if (tied) {
+      diagnostics.push({
+        kind: 'tie',
+        elementId: id,
+        relatedIds: tied,
+        message: `${listNames([parentId!, ...tied])} contain it with the same z-index and area; ${nameOf(parentId)} wins by coming first in the document.`,
+      });
+    }
+    if (issues.settledParents.has(id)) {
+      const settledId = issues.settledParents.get(id)!;
+      diagnostics.push({
+        kind: 'parent-changed',
+        elementId: id,
+        relatedIds: [parentId, settledId].filter((p): p is string => !!p),
+        message: `Its estimate lies in ${nameOf(parentId)}, but once placed it is centered in ${nameOf(settledId)}. An explicit parent would settle it.`,
+      });
+    }
+    (issues.zeroSizeAxes.get(id) || []).forEach((dimension) => {
+      diagnostics.push({
+        kind: 'zero-size-parent',
+        elementId: id,
+        relatedIds: [parentId!],
+        message: `${nameOf(parentId)} has zero ${dimension}, so ${dimension === 'width' ? UnitType.PERCENT_PARENT_W : UnitType.PERCENT_PARENT_H} values inside it resolve to 0 and cannot be converted back from pixels.`,
+      });
+    });
+    return diagnostics;
+  });
+};
+
+const getGraphDiagnostics = (graph: LayoutGraph): LayoutDiagnostic[] => {
+  if (!graph.issues) graph.issues = computeIssues(graph);
+  return describeIssues(graph, graph.issues);
+};
+
+/**
+ * Diagnostics of a layout. They are computed from its graph on the first request and then
+ * kept current by relayoutElement; a state that is no longer current is laid out again.
+ */
+export const getLayoutDiagnostics = (state: LayoutState): LayoutDiagnostic[] => {
+  if (!isCurrent(state)) return getGraphDiagnostics(layoutDocument(state.document, state.graph.viewport).graph);
+  return getGraphDiagnostics(state.graph);
+};
+
+/**
+ * calculateRuntimePositions, together with the diagnostics of that layout.
+ */
+export const calculateLayout = (
+  documentElements: LayoutElement[],
+  viewport: Viewport
+): LayoutResult => {
+  const state = layoutDocument(documentElements, viewport);
+  return { elements: state.elements, diagnostics: getLayoutDiagnostics(state) };
+};
@@ -0,0 +1,301 @@
+import { LayoutElement, LayoutValue, UnitType, Viewport } from '../types';
+import { VIEWPORTS } from '../constants';
+import { calculateRuntimePositions, getContentRect, getDerivedDimension, getGridConfig, getStackConfig } from './layoutUtils';
+import { formatBreakpoint, getBreakpointSegments, withEffectiveLayouts } from './breakpoints';
+import { getCssChildren } from './cssLayout';
+import { getClassNames } from './htmlExport';
+import { DslDiagnostic } from './dslValidator';
+
+export interface ReactNativeExportOptions {
+  // Name of the generated component
+  componentName?: string;
+  // Viewport used to resolve parents found by containment (its width is replaced per breakpoint)
+  viewport?: Viewport;
+}
+
+export interface ReactNativeExport {
+  code: string;
+  // Constructs React Native cannot express; the code approximates them
+  diagnostics: DslDiagnostic[];
+}
+
+// A length split into what React Native can hold apart: a percentage of the parent,
+// fixed pixels and window-relative expressions (from useWindowDimensions)
+interface Linear {
+  pct: number;
+  px: number;
+  dyn: string[];
+}
+
+// A style property as JS source; dynamic ones depend on the window size
+interface StyleValue {
+  source: string;
+  dynamic: boolean;
+}
+
+type Style = Record<string, StyleValue>;
+
+const num = (n: number): string => String(Math.round(n * 10000) / 10000);
+const fixed = (n: number): StyleValue => ({ source: num(n), dynamic: false });
+const literal = (text: string): StyleValue => ({ source: `'${text}'`, dynamic: false });
+
+const FLEX_ALIGN = { start: 'flex-start', center: 'center', end: 'flex-end', 'space-between': 'space-between', stretch: 'stretch' };
+
+const toCamelCase = (name: string) => name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+/**
+ * Generates a React Native component for the document: nested `View`s following `_runtime.parentId`,
+ * with a `StyleSheet.create` block. Anchors map to left/right/top/bottom, parent percentages to
+ * percent strings and viewport units to `useWindowDimensions` math, applied as inline styles.
+ * Breakpoint overrides become one render function per width range.
+ */
+export const exportReactNative = (elements: LayoutElement[], options: ReactNativeExportOptions = {}): ReactNativeExport => {
+  const componentName = options.componentName || 'LayoutFlowLayout';
+  const baseViewport = options.viewport || VIEWPORTS[0];
+  // `root` is taken by the canvas view. camelCasing can merge names (`a-1`, `a1`), so it is
+  // applied before the names are made unique.
+  const styleNames = getClassNames(elements, (name) => {
+    const camel = toCamelCase(name);
+    return camel === 'root' ? 'rootElement' : camel;
+  });
+  const indexOf = new Map(elements.map((el, i) => [el.id, i]));
+
+  const diagnostics: DslDiagnostic[] = [];
+  const warn = (el: LayoutElement, key: string, message: string) => {
+    const path = `[${indexOf.get(el.id)}].layout${key ? `.${key}` : ''}`;
+    if (!diagnostics.some((d) => d.path === path && d.message === message)) {
+      diagnostics.push({ path, severity: 'warning', message });
+    }
+  };
+
+  let usesWindow = false;
+
+  const buildVariant = (viewport: Viewport, suffix: string) => {
+    const laidOut = withEffectiveLayouts(calculateRuntimePositions(elements, viewport), viewport);
+    const styles: { name: string; style: Style }[] = [];
+
+    const toLinear = (el: LayoutElement, key: string, val: LayoutValue, axis: 'x' | 'y'): Linear => {
+      const result: Linear = { pct: 0, px: 0, dyn: [] };
+      [val, ...(val.terms || [])].forEach((term) => {
+        if (term.unit === UnitType.PX) result.px += term.value;
+        else if (term.unit === UnitType.VW) result.dyn.push(`width * ${num(term.value / 100)}`);
+        else if (term.unit === UnitType.VH) result.dyn.push(`height * ${num(term.value / 100)}`);
+        else {
+          // React Native resolves horizontal percentages against the parent width, vertical ones against its height
+          const sameAxis = axis === 'x' ? UnitType.PERCENT_PARENT_W : UnitType.PERCENT_PARENT_H;
+          if (term.unit !== sameAxis) warn(el, key, `${term.unit} on a ${axis === 'x' ? 'horizontal' : 'vertical'} property is resolved against the other parent dimension in React Native`);
+          result.pct += term.value;
+        }
+      });
+      return result;
+    };
+
+    const fromLinear = (el: LayoutElement, key: string, l: Linear): StyleValue => {
+      if (l.pct !== 0) {
+        if (l.px !== 0 || l.dyn.length > 0) warn(el, key, 'React Native has no calc(); only the percentage part is kept');
+        return literal(`${num(l.pct)}%`);
+      }
+      if (l.dyn.length === 0) return fixed(l.px);
+      usesWindow = true;
+      return { source: [...l.dyn, ...(l.px !== 0 ? [num(l.px)] : [])].join(' + ').replace(/\+ -/g, '- '), dynamic: true };
+    };
+
+    const lengthStyle = (el: LayoutElement, key: string, val: LayoutValue, axis: 'x' | 'y') =>
+      fromLinear(el, key, toLinear(el, key, val, axis));
+
+    const sizeStyles = (el: LayoutElement, style: Style) => {
+      const { layout } = el;
+      (['width', 'height'] as const).forEach((dim) => {
+        if (layout[dim]) style[dim] = lengthStyle(el, dim, layout[dim]!, dim === 'width' ? 'x' : 'y');
+      });
+      if (getDerivedDimension(layout)) {
+        delete style[getDerivedDimension(layout)!];
+        style.aspectRatio = fixed(layout.aspectRatio!);
+      }
+      (['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const).forEach((key) => {
+        if (layout[key]) style[key] = lengthStyle(el, key, layout[key]!, key.endsWith('Width') ? 'x' : 'y');
+      });
+    };
+
+    // Absolute anchoring inside the parent
+    const anchorStyles = (el: LayoutElement, style: Style) => {
+      const { layout } = el;
+      style.position = literal('absolute');
+      (['x', 'y'] as const).forEach((axis) => {
+        const anchor = (axis === 'x' ? layout.anchorX : layout.anchorY) || (axis === 'x' ? 'left' : 'top');
+        const [startKey, endKey, dim, marginKey] = axis === 'x'
+          ? ['left', 'right', 'width', 'marginLeft'] as const
+          : ['top', 'bottom', 'height', 'marginTop'] as const;
+        const offset = toLinear(el, axis, layout[axis], axis);
+
+        if (anchor === 'stretch') {
+          const end = axis === 'x' ? layout.xEnd : layout.yEnd;
+          style[startKey] = fromLinear(el, axis, offset);
+          style[endKey] = end ? lengthStyle(el, `${axis}End`, end, axis) : fixed(0);
+        } else if (anchor === 'center') {
+          // Centered: the start edge sits at 50% minus half the size; fixed parts go into the margin
+          if (!layout[dim] || layout[`min${dim === 'width' ? 'Width' : 'Height'}`] || layout[`max${dim === 'width' ? 'Width' : 'Height'}`]) {
+            warn(el, `anchor${axis.toUpperCase()}`, `Centering ignores min/max and aspect ratio in React Native`);
+          }
+          const size = layout[dim] ? toLinear(el, dim, layout[dim]!, axis) : { pct: 0, px: 0, dyn: [] };
+          style[startKey] = literal(`${num(50 - size.pct / 2 + offset.pct)}%`);
+          const margin: Linear = { pct: 0, px: offset.px - size.px / 2, dyn: [...offset.dyn, ...size.dyn.map((d) => `-(${d}) / 2`)] };
+          if (margin.px !== 0 || margin.dyn.length > 0) style[marginKey] = fromLinear(el, axis, margin);
+        } else {
+          style[anchor === 'left' || anchor === 'top' ? startKey : endKey] = fromLinear(el, axis, offset);
+        }
+      });
+    };
+
+    const containerStyles = (el: LayoutElement, style: Style) => {
+      const stack = getStackConfig(el.layout);
+      const grid = getGridConfig(el.layout);
+      if (stack) {
+        style.flexDirection = literal(stack.direction);
+        style.justifyContent = literal(FLEX_ALIGN[stack.mainAlign || 'start']);
+        style.alignItems = literal(FLEX_ALIGN[stack.crossAlign || 'start']);
+        style.flexWrap = literal(stack.wrap ? 'wrap' : 'nowrap');
+        style.alignContent = literal('flex-start');
+        if (stack.gap) {
+          const gap = toLinear(el, 'stack.gap', stack.gap, 'x');
+          if (gap.pct !== 0) warn(el, 'stack.gap', 'React Native gaps cannot be percentages; the gap is dropped');
+          else style.gap = fromLinear(el, 'stack.gap', gap);
+        }
+      }
+      if (grid) warn(el, 'layoutMode', `React Native has no grid layout; cells are placed at their ${viewport.width}px positions`);
+      const padding = (stack || grid)?.padding;
+      if (padding) style.padding = lengthStyle(el, `${stack ? 'stack' : 'grid'}.padding`, padding, 'x');
+    };
+
+    const styleFor = (el: LayoutElement, parent?: LayoutElement): Style => {
+      const style: Style = {};
+      const parentStack = parent ? getStackConfig(parent.layout) : null;
+      const parentGrid = parent ? getGridConfig(parent.layout) : null;
+
+      if (parentGrid) {
+        // Pixel rect of the cell area inside the grid's content box
+        const content = getContentRect(parent!, parent!._runtime!, viewport);
+        const rt = el._runtime!;
+        style.position = literal('absolute');
+        style.left = fixed(rt.x - content.x);
+        style.top = fixed(rt.y - content.y);
+        style.width = fixed(rt.width);
+        style.height = fixed(rt.height);
+      } else if (parentStack) {
+        sizeStyles(el, style);
+        style.flexShrink = fixed(0);
+        // Stretched axes fill the stack's content box
+        if (el.layout.anchorX === 'stretch') style.width = literal('100%');
+        if (el.layout.anchorY === 'stretch') style.height = literal('100%');
+        if (parentStack.crossAlign === 'stretch') delete style[parentStack.direction === 'row' ? 'height' : 'width'];
+      } else {
+        anchorStyles(el, style);
+        sizeStyles(el, style);
+      }
+
+      containerStyles(el, style);
+      if (el.type === 'circle') style.borderRadius = fixed(9999);
+      // React Native has no visibility; a transparent view keeps its place for the stack around it
+      if (el.hidden) style.opacity = fixed(0);
+      return style;
+    };
+
+    const renderNode = (el: LayoutElement, depth: number): string[] => {
+      const parent = laidOut.find((p) => p.id === el._runtime?.parentId);
+      const style = styleFor(el, parent);
+      const name = styleNames.get(el.id)!;
+      const staticKeys = Object.keys(style).filter((k) => !style[k].dynamic);
+      const dynamicKeys = Object.keys(style).filter((k) => style[k].dynamic);
+      styles.push({ name, style: Object.fromEntries(staticKeys.map((k) => [k, style[k]])) });
+
+      const ref = `styles${suffix}.${name}`;
+      const styleProp = dynamicKeys.length > 0
+        ? `[${ref}, { ${dynamicKeys.map((k) => `${k}: ${style[k].source}`).join(', ')} }]`
+        : ref;
+      const pad = '  '.repeat(depth);
+      const children = getCssChildren(el, laidOut);
+      const label = `${pad}{/* ${(el.name || el.id).replace(/\*\//g, '* /')} */}`;
+      const props = `style={${styleProp}}${el.hidden ? ' pointerEvents="none"' : ''}`;
+      if (children.length === 0) return [label, `${pad}<View ${props} />`];
+      return [
+        label,
+        `${pad}<View ${props}>`,
+        ...children.flatMap((child) => renderNode(child, depth + 1)),
+        `${pad}</View>`,
+      ];
+    };
+
+    const roots = laidOut
+      .filter((el) => !el._runtime?.parentId)
+      .sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0));
+    const jsx = [
+      `<View style={styles${suffix}.root}>`,
+      ...roots.flatMap((el) => renderNode(el, 1)),
+      '</View>',
+    ];
+
+    const sheet = [
+      `const styles${suffix} = StyleSheet.create({`,
+      '  root: { flex: 1 },',
+      ...styles.map(({ name, style }) =>
+        `  ${name}: { ${Object.keys(style).map((k) => `${k}: ${style[k].source}`).join(', ')} },`),
+      '});',
+    ];
+    return { jsx, sheet };
+  };
+
+  // One render function per width range where the overrides differ; identical neighbours merge
+  const variants: { min?: number; max?: number; jsx: string[]; sheet: string[] }[] = [];
+  const segments = getBreakpointSegments(elements);
+  segments.forEach((segment) => {
+    const width = segment.minWidth ?? segment.maxWidth ?? baseViewport.width;
+    const suffix = segments.length > 1 ? String(variants.length) : '';
+    const variant = buildVariant({ ...baseViewport, width }, suffix);
+    const last = variants[variants.length - 1];
+    const key = (v: { jsx: string[]; sheet: string[] }) => [...v.jsx, ...v.sheet].join('\n').replace(/styles\d+/g, 'styles');
+    if (last && key(last) === key(variant)) last.max = segment.maxWidth;
+    else variants.push({ min: segment.minWidth, max: segment.maxWidth, ...variant });
+  });
+  // Breakpoints decide on the window width
+  if (variants.length > 1) usesWindow = true;
+
+  const returnJsx = (jsx: string[]) => ['return (', ...jsx.map((line) => `  ${line}`), ');'];
+  const hook = usesWindow ? ['const { width, height } = useWindowDimensions();'] : [];
+  let body: string[];
+  const helpers: string[] = [];
+  if (variants.length === 1) {
+    body = [...hook, ...returnJsx(variants[0].jsx)];
+    helpers.push('', ...variants[0].sheet);
+  } else {
+    body = [...hook, ...variants.map((variant, i) => {
+      const range = formatBreakpoint({ minWidth: variant.min, maxWidth: variant.max });
+      return i < variants.length - 1
+        ? `if (width <= ${variant.max}) return renderLayout${i}(width, height); // ${range}`
+        : `return renderLayout${i}(width, height); // ${range}`;
+    })];
+    variants.forEach((variant, i) => {
+      helpers.push(
+        '',
+        `function renderLayout${i}(width: number, height: number) {`,
+        ...returnJsx(variant.jsx).map((line) => `  ${line}`),
+        '}',
+        '',
+        ...variant.sheet,
+      );
+    });
+  }
+
+  const code = [
+    '// Generated by LayoutFlow from layout.yaml. Do not edit by hand.',
+    "import React from 'react';",
+    `import { StyleSheet, View${usesWindow ? ', useWindowDimensions' : ''} } from 'react-native';`,
+    '',
+    `export default function ${componentName}() {`,
+    ...body.map((line) => `  ${line}`),
+    '}',
+    ...helpers,
+    '',
+  ].join('\n');
+
+  return { code, diagnostics };
+};
@@ -0,0 +1,147 @@
+import { LayoutElement, Rect, Viewport } from '../types';
+import { findContainerAt } from './layoutUtils';
+
+export interface SnapOptions {
+  enabled: boolean;
+  gridSize: number; // 0 disables the pixel grid
+}
+
+export interface SnapGuide {
+  axis: 'x' | 'y';  // 'x' guides are vertical lines at x = position
+  position: number;
+  from: number;     // Extent along the other axis
+  to: number;
+}
+
+interface SnapResult {
+  rect: Rect;
+  guides: SnapGuide[];
+}
+
+// Edge/center lines of a rect along one axis: start, center, end
+const linesOf = (rect: Rect, axis: 'x' | 'y'): number[] =>
+  axis === 'x'
+    ? [rect.x, rect.x + rect.width / 2, rect.x + rect.width]
+    : [rect.y, rect.y + rect.height / 2, rect.y + rect.height];
+
+/**
+ * Rects worth snapping to while moving `rect`: the container under it and that container's other children.
+ * Elements in `movingIds` are excluded, they travel with the gesture.
+ */
+export const collectSnapTargets = (
+  rect: Rect,
+  elements: LayoutElement[],
+  movingIds: string[],
+  viewport: Viewport
+): Rect[] => {
+  const stationary = elements.filter((el) => el._runtime && !movingIds.includes(el.id));
+  const parent = findContainerAt(rect, stationary, '');
+  const parentId = parent ? parent.id : null;
+
+  const targets: Rect[] = [
+    parent ? parent._runtime! : { x: 0, y: 0, width: viewport.width, height: viewport.height }
+  ];
+  stationary.forEach((el) => {
+    if (el.id !== parentId && (el._runtime!.parentId ?? null) === parentId) targets.push(el._runtime!);
+  });
+  return targets;
+};
+
+/**
+ * Finds the smallest correction that puts one of `values` onto a target line within `threshold`.
+ */
+const findSnap = (
+  values: number[],
+  axis: 'x' | 'y',
+  targets: Rect[],
+  threshold: number
+): { delta: number; matches: { position: number; target: Rect }[] } | null => {
+  let best: number | null = null;
+  targets.forEach((target) => {
+    linesOf(target, axis).forEach((line) => {
+      values.forEach((v) => {
+        const d = line - v;
+        if (Math.abs(d) <= threshold && (best === null || Math.abs(d) < Math.abs(best))) best = d;
+      });
+    });
+  });
+  if (best === null) return null;
+
+  // Collect every line the corrected values now sit on, for drawing
+  const delta = best;
+  const matches: { position: number; target: Rect }[] = [];
+  targets.forEach((target) => {
+    linesOf(target, axis).forEach((line) => {
+      if (values.some((v) => Math.abs(v + delta - line) < 0.5)) matches.push({ position: line, target });
+    });
+  });
+  return { delta, matches };
+};
+
+const toGuides = (axis: 'x' | 'y', rect: Rect, matches: { position: number; target: Rect }[]): SnapGuide[] =>
+  matches.map(({ position, target }) =>
+    axis === 'x'
+      ? { axis, position, from: Math.min(rect.y, target.y), to: Math.max(rect.y + rect.height, target.y + target.height) }
+      : { axis, position, from: Math.min(rect.x, target.x), to: Math.max(rect.x + rect.width, target.x + target.width) }
+  );
+
+const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+/**
+ * Snaps a translated rect. Any of its edges or its center may lock onto a target line;
+ * the pixel grid is the fallback on axes without a guide match.
+ */
+export const snapMove = (rect: Rect, targets: Rect[], threshold: number, gridSize: number): SnapResult => {
+  let { x, y } = rect;
+  const guides: SnapGuide[] = [];
+
+  const sx = findSnap(linesOf(rect, 'x'), 'x', targets, threshold);
+  if (sx) x += sx.delta;
+  else if (gridSize > 0) x = snapToGrid(x, gridSize);
+
+  const sy = findSnap(linesOf(rect, 'y'), 'y', targets, threshold);
+  if (sy) y += sy.delta;
+  else if (gridSize > 0) y = snapToGrid(y, gridSize);
+
+  const snapped = { ...rect, x, y };
+  if (sx) guides.push(...toGuides('x', snapped, sx.matches));
+  if (sy) guides.push(...toGuides('y', snapped, sy.matches));
+  return { rect: snapped, guides };
+};
+
+/**
+ * Snaps the edges a resize handle moves (e.g. 'ne' moves the top and right edges).
+ * The opposite edges stay put and sizes never drop below `minSize`.
+ */
+export const snapResize = (
+  rect: Rect,
+  handle: string,
+  targets: Rect[],
+  threshold: number,
+  gridSize: number,
+  minSize: number
+): SnapResult => {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+  const matchesX: { position: number; target: Rect }[] = [];
+  const matchesY: { position: number; target: Rect }[] = [];
+
+  const snapEdge = (value: number, axis: 'x' | 'y', matches: typeof matchesX): number => {
+    const s = findSnap([value], axis, targets, threshold);
+    if (s) {
+      matches.push(...s.matches);
+      return value + s.delta;
+    }
+    return gridSize > 0 ? snapToGrid(value, gridSize) : value;
+  };
+
+  if (handle.includes('w')) left = Math.min(snapEdge(left, 'x', matchesX), right - minSize);
+  if (handle.includes('e')) right = Math.max(snapEdge(right, 'x', matchesX), left + minSize);
+  if (handle.includes('n')) top = Math.min(snapEdge(top, 'y', matchesY), bottom - minSize);
+  if (handle.includes('s')) bottom = Math.max(snapEdge(bottom, 'y', matchesY), top + minSize);
+
+  const snapped = { x: left, y: top, width: right - left, height: bottom - top };
+  return { rect: snapped, guides: [...toGuides('x', snapped, matchesX), ...toGuides('y', snapped, matchesY)] };
+};
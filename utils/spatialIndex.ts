@@ -0,0 +1,116 @@
+import { Rect } from '../types';
+
+// A rect covering more grid cells than this is checked on every query instead
+const MAX_CELLS_PER_ITEM = 256;
+const MIN_CELL_SIZE = 16;
+
+export interface SpatialIndex<T> {
+  // Items whose rect contains the point (edges inclusive), ascending by order
+  queryPoint: (x: number, y: number) => T[];
+  // Adds an item; `order` ranks it in query results (e.g. its document index)
+  insert: (value: T, rect: Rect, order: number) => void;
+  remove: (value: T) => void;
+}
+
+interface Entry<T> {
+  order: number;
+  rect: Rect;
+  value: T;
+}
+
+const contains = (rect: Rect, x: number, y: number) =>
+  x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+// Keeps `list` ascending by order
+const insertSorted = <T,>(list: Entry<T>[], entry: Entry<T>) => {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].order < entry.order) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, entry);
+};
+
+/**
+ * Uniform-grid index for point-in-rect queries, used for containment in large documents.
+ * Cells are sized from the average initial item, so a typical rect spans a handful of cells.
+ * Oversized or non-finite rects go to a short list that every query scans.
+ */
+export const createSpatialIndex = <T,>(items: { rect: Rect; value: T; order: number }[]): SpatialIndex<T> => {
+  const finite = items.filter(({ rect }) => [rect.x, rect.y, rect.width, rect.height].every(Number.isFinite));
+  const averageSize = finite.reduce((sum, { rect }) => sum + Math.max(rect.width, rect.height), 0) / (finite.length || 1);
+  const cellSize = Math.max(MIN_CELL_SIZE, averageSize);
+
+  const cells = new Map<string, Entry<T>[]>();
+  const unbucketed: Entry<T>[] = [];
+  // Where each item is filed, for removal; null means the unbucketed list
+  const placement = new Map<T, { entry: Entry<T>; keys: string[] | null }>();
+
+  const getCellKeys = (rect: Rect): string[] | null => {
+    const x0 = Math.floor(rect.x / cellSize);
+    const x1 = Math.floor((rect.x + rect.width) / cellSize);
+    const y0 = Math.floor(rect.y / cellSize);
+    const y1 = Math.floor((rect.y + rect.height) / cellSize);
+    const spans = (x1 - x0 + 1) * (y1 - y0 + 1);
+    if (!Number.isFinite(spans) || spans <= 0 || spans > MAX_CELLS_PER_ITEM) return null;
+    const keys: string[] = [];
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) keys.push(`${cx},${cy}`);
+    }
+    return keys;
+  };
+
+  const insert = (value: T, rect: Rect, order: number) => {
+    const entry = { order, rect, value };
+    const keys = getCellKeys(rect);
+    placement.set(value, { entry, keys });
+    if (!keys) {
+      insertSorted(unbucketed, entry);
+      return;
+    }
+    keys.forEach((key) => {
+      const bucket = cells.get(key);
+      if (bucket) insertSorted(bucket, entry);
+      else cells.set(key, [entry]);
+    });
+  };
+
+  const remove = (value: T) => {
+    const filed = placement.get(value);
+    if (!filed) return;
+    placement.delete(value);
+    const drop = (list: Entry<T>[]) => list.splice(list.indexOf(filed.entry), 1);
+    if (!filed.keys) {
+      drop(unbucketed);
+      return;
+    }
+    filed.keys.forEach((key) => {
+      const bucket = cells.get(key)!;
+      drop(bucket);
+      if (bucket.length === 0) cells.delete(key);
+    });
+  };
+
+  items.forEach((item) => insert(item.value, item.rect, item.order));
+
+  return {
+    queryPoint: (x, y) => {
+      const bucket = cells.get(`${Math.floor(x / cellSize)},${Math.floor(y / cellSize)}`) || [];
+      // Both lists are already ascending; merge them to keep it
+      const hits: T[] = [];
+      let i = 0;
+      let j = 0;
+      while (i < bucket.length || j < unbucketed.length) {
+        const next = j >= unbucketed.length || (i < bucket.length && bucket[i].order < unbucketed[j].order)
+          ? bucket[i++]
+          : unbucketed[j++];
+        if (contains(next.rect, x, y)) hits.push(next.value);
+      }
+      return hits;
+    },
+    insert,
+    remove,
+  };
+};
@@ -0,0 +1,118 @@
+import { Rect, StackCrossAlign, StackDirection, StackMainAlign } from '../types';
+
+export interface StackItem {
+  id: string;
+  width: number;
+  height: number;
+}
+
+// A StackConfig with its lengths already resolved to pixels and defaults filled in
+export interface ResolvedStack {
+  direction: StackDirection;
+  gap: number;
+  mainAlign: StackMainAlign;
+  crossAlign: StackCrossAlign;
+  wrap: boolean;
+}
+
+const mainSizeOf = (r: { width: number; height: number }, direction: StackDirection) =>
+  direction === 'row' ? r.width : r.height;
+
+const crossSizeOf = (r: { width: number; height: number }, direction: StackDirection) =>
+  direction === 'row' ? r.height : r.width;
+
+/**
+ * Places stack items, in order, inside `content` (the container's rect minus its padding).
+ * Items keep their own size on the main axis; `clampCross` applies an item's min/max when
+ * `crossAlign: stretch` sizes it to the line.
+ */
+export const layoutStack = (
+  content: Rect,
+  stack: ResolvedStack,
+  items: StackItem[],
+  clampCross: (id: string, size: number) => number
+): Record<string, Rect> => {
+  const { direction, gap } = stack;
+  const contentMain = mainSizeOf(content, direction);
+  const contentCross = crossSizeOf(content, direction);
+
+  // 1. Break into lines (a single line unless wrapping)
+  const lines: StackItem[][] = [];
+  let current: StackItem[] = [];
+  let used = 0;
+  items.forEach((item) => {
+    const size = mainSizeOf(item, direction);
+    if (stack.wrap && current.length > 0 && used + gap + size > contentMain) {
+      lines.push(current);
+      current = [];
+      used = 0;
+    }
+    used += (current.length > 0 ? gap : 0) + size;
+    current.push(item);
+  });
+  if (current.length > 0) lines.push(current);
+
+  // 2. Position every line along the main axis, then its items across it
+  const result: Record<string, Rect> = {};
+  let lineStart = direction === 'row' ? content.y : content.x;
+
+  lines.forEach((line) => {
+    // A single unwrapped line spans the whole content box, like a flex line
+    const lineCross = !stack.wrap
+      ? contentCross
+      : Math.max(...line.map((item) => crossSizeOf(item, direction)));
+
+    const total = line.reduce((sum, item) => sum + mainSizeOf(item, direction), 0) + gap * (line.length - 1);
+    const free = contentMain - total;
+    let pos = direction === 'row' ? content.x : content.y;
+    let spacing = gap;
+    if (stack.mainAlign === 'center') pos += free / 2;
+    else if (stack.mainAlign === 'end') pos += free;
+    else if (stack.mainAlign === 'space-between' && line.length > 1 && free > 0) spacing += free / (line.length - 1);
+
+    line.forEach((item) => {
+      const mainSize = mainSizeOf(item, direction);
+      let crossSize = crossSizeOf(item, direction);
+      let crossPos = lineStart;
+      if (stack.crossAlign === 'stretch') crossSize = clampCross(item.id, lineCross);
+      else if (stack.crossAlign === 'center') crossPos += (lineCross - crossSize) / 2;
+      else if (stack.crossAlign === 'end') crossPos += lineCross - crossSize;
+
+      result[item.id] = direction === 'row'
+        ? { x: pos, y: crossPos, width: mainSize, height: crossSize }
+        : { x: crossPos, y: pos, width: crossSize, height: mainSize };
+      pos += mainSize + spacing;
+    });
+
+    lineStart += lineCross + gap;
+  });
+
+  return result;
+};
+
+/**
+ * Where an item dropped at `drop` lands among the (ordered) rects of its new siblings.
+ * Wrapped stacks compare lines first, then the position within the line.
+ */
+export const getStackInsertIndex = (
+  siblings: Rect[],
+  drop: Rect,
+  direction: StackDirection,
+  wrap: boolean
+): number => {
+  const isRow = direction === 'row';
+  const mainCenter = isRow ? drop.x + drop.width / 2 : drop.y + drop.height / 2;
+  const crossCenter = isRow ? drop.y + drop.height / 2 : drop.x + drop.width / 2;
+
+  const index = siblings.findIndex((s) => {
+    if (wrap) {
+      const crossStart = isRow ? s.y : s.x;
+      const crossEnd = crossStart + crossSizeOf(s, direction);
+      if (crossCenter < crossStart) return true; // An earlier line
+      if (crossCenter > crossEnd) return false;
+    }
+    const start = isRow ? s.x : s.y;
+    return mainCenter < start + mainSizeOf(s, direction) / 2;
+  });
+  return index === -1 ? siblings.length : index;
+};
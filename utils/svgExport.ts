@@ -0,0 +1,194 @@
+import { LayoutElement, LayoutValue, Rect, UnitType, Viewport } from '../types';
+import { VIEWPORTS } from '../constants';
+import { calculateRuntimePositions, getParentRect, isAutoLayout } from './layoutUtils';
+import { withEffectiveLayouts } from './breakpoints';
+import { formatLayoutValue } from './layoutExpression';
+import { getCssChildren } from './cssLayout';
+
+export interface SvgExportOptions {
+  // Viewport to lay the document out at (defaults to the first preset)
+  viewport?: Viewport;
+  // Draw anchor/offset lines like the editor's measurement overlay
+  annotations?: boolean;
+}
+
+export interface SvgSheetOptions {
+  // Viewports side by side, in order (defaults to every preset)
+  viewports?: Viewport[];
+  annotations?: boolean;
+}
+
+// Space between frames on a sheet, and above each frame for its caption
+const SHEET_GAP = 80;
+const CAPTION_HEIGHT = 32;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+// `24px`, `50%p_w - 16px`: the value as written in layout.yaml
+const formatValue = (val: LayoutValue) =>
+  val.terms && val.terms.length > 0 ? formatLayoutValue(val) : `${formatLayoutValue(val)}${val.unit}`;
+
+const isGlobal = (val: LayoutValue) => val.unit === UnitType.VW || val.unit === UnitType.VH;
+
+// One dashed measurement line between two points, labelled at its middle
+const drawMeasure = (x1: number, y1: number, x2: number, y2: number, label: string) => {
+  const length = Math.abs(x2 - x1) + Math.abs(y2 - y1);
+  if (length <= 1) return [];
+  const mx = (x1 + x2) / 2;
+  const my = (y1 + y2) / 2;
+  return [
+    `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" class="lf-measure" />`,
+    `<circle cx="${fmt(x1)}" cy="${fmt(y1)}" r="2" class="lf-dot" />`,
+    `<circle cx="${fmt(x2)}" cy="${fmt(y2)}" r="2" class="lf-dot" />`,
+    // Above horizontal lines, beside vertical ones
+    x1 === x2
+      ? `<text x="${fmt(mx + 4)}" y="${fmt(my)}" class="lf-measure-label" text-anchor="start" dominant-baseline="middle">${escapeXml(label)}</text>`
+      : `<text x="${fmt(mx)}" y="${fmt(my - 4)}" class="lf-measure-label" text-anchor="middle">${escapeXml(label)}</text>`,
+  ];
+};
+
+/**
+ * Anchor lines for one element, as in the editor's MeasurementOverlay: from the anchored
+ * edge (or center) to the matching edge of the parent, or of the viewport for vw/vh offsets.
+ */
+const drawAnnotations = (el: LayoutElement, rect: Rect, parent: Rect, viewport: Viewport) => {
+  const { layout } = el;
+  const anchorX = layout.anchorX || 'left';
+  const anchorY = layout.anchorY || 'top';
+  const frameX = isGlobal(layout.x) ? { x: 0, width: viewport.width } : { x: parent.x, width: parent.width };
+  const frameY = isGlobal(layout.y) ? { y: 0, height: viewport.height } : { y: parent.y, height: parent.height };
+  const midX = rect.x + rect.width / 2;
+  const midY = rect.y + rect.height / 2;
+  const out: string[] = [];
+
+  // Pixel offsets are their own measure; other units also show what they resolved to
+  const label = (val: LayoutValue, px: number) =>
+    val.unit === UnitType.PX && !val.terms?.length ? formatValue(val) : `${formatValue(val)} = ${Math.round(px)}px`;
+
+  if (anchorX === 'left' || anchorX === 'stretch') {
+    out.push(...drawMeasure(frameX.x, midY, rect.x, midY, label(layout.x, rect.x - frameX.x)));
+  } else if (anchorX === 'right') {
+    const edge = frameX.x + frameX.width;
+    out.push(...drawMeasure(rect.x + rect.width, midY, edge, midY, label(layout.x, edge - rect.x - rect.width)));
+  } else if (anchorX === 'center') {
+    const center = frameX.x + frameX.width / 2;
+    out.push(...drawMeasure(center, midY, midX, midY, label(layout.x, midX - center)));
+  }
+  if (anchorX === 'stretch' && layout.xEnd) {
+    const edge = parent.x + parent.width;
+    out.push(...drawMeasure(rect.x + rect.width, midY, edge, midY, label(layout.xEnd, edge - rect.x - rect.width)));
+  }
+
+  if (anchorY === 'top' || anchorY === 'stretch') {
+    out.push(...drawMeasure(midX, frameY.y, midX, rect.y, label(layout.y, rect.y - frameY.y)));
+  } else if (anchorY === 'bottom') {
+    const edge = frameY.y + frameY.height;
+    out.push(...drawMeasure(midX, rect.y + rect.height, midX, edge, label(layout.y, edge - rect.y - rect.height)));
+  } else if (anchorY === 'center') {
+    const center = frameY.y + frameY.height / 2;
+    out.push(...drawMeasure(midX, center, midX, midY, label(layout.y, midY - center)));
+  }
+  if (anchorY === 'stretch' && layout.yEnd) {
+    const edge = parent.y + parent.height;
+    out.push(...drawMeasure(midX, rect.y + rect.height, midX, edge, label(layout.yEnd, edge - rect.y - rect.height)));
+  }
+  return out;
+};
+
+const STYLE = [
+  '<style>',
+  '  .lf-frame { fill: #ffffff; stroke: #d1d5db; }',
+  '  .lf-box { fill: #f3f4f6; fill-opacity: 0.9; stroke: #9ca3af; stroke-width: 2; }',
+  '  .lf-name { font: 11px ui-monospace, monospace; fill: #6b7280; }',
+  '  .lf-caption { font: bold 14px system-ui, sans-serif; fill: #374151; }',
+  '  .lf-measure { stroke: #ef4444; stroke-dasharray: 4 3; }',
+  '  .lf-dot { fill: #ef4444; }',
+  '  .lf-measure-label { font: bold 10px system-ui, sans-serif; fill: #ef4444; }',
+  '</style>',
+];
+
+/**
+ * The document at one viewport as SVG elements in viewport coordinates, clipped to the
+ * viewport. Children are drawn after their parents, siblings by z-index as in the Preview.
+ */
+const renderFrame = (elements: LayoutElement[], viewport: Viewport, annotations: boolean, clipId: string) => {
+  // Runtime rects come from the base document; anchors and offsets from the layouts in effect
+  const laidOut = withEffectiveLayouts(calculateRuntimePositions(elements, viewport), viewport);
+  const byId = new Map(laidOut.map(el => [el.id, el]));
+  const boxes: string[] = [];
+  const measures: string[] = [];
+
+  // A hidden element is left out with everything nested in it; nothing else moves in a picture
+  const draw = (el: LayoutElement) => {
+    const rect = el._runtime;
+    if (!rect || el.hidden) return;
+    const name = escapeXml(el.name || el.id);
+    boxes.push(`<g data-id="${escapeXml(el.id)}">`);
+    boxes.push(el.type === 'circle'
+      ? `  <ellipse cx="${fmt(rect.x + rect.width / 2)}" cy="${fmt(rect.y + rect.height / 2)}" rx="${fmt(rect.width / 2)}" ry="${fmt(rect.height / 2)}" class="lf-box" />`
+      : `  <rect x="${fmt(rect.x)}" y="${fmt(rect.y)}" width="${fmt(rect.width)}" height="${fmt(rect.height)}" rx="2" class="lf-box" />`);
+    boxes.push(`  <text x="${fmt(rect.x + rect.width / 2)}" y="${fmt(rect.y + rect.height / 2)}" class="lf-name" text-anchor="middle" dominant-baseline="middle">${name}</text>`);
+    boxes.push('</g>');
+
+    const parent = rect.parentId ? byId.get(rect.parentId) : undefined;
+    // Stack and grid items have no offsets of their own to show
+    if (annotations && !(parent && isAutoLayout(parent.layout))) {
+      measures.push(...drawAnnotations(el, rect, getParentRect(rect.parentId, byId, viewport), viewport));
+    }
+    getCssChildren(el, laidOut).forEach(draw);
+  };
+  laidOut
+    .filter((el) => !el._runtime?.parentId)
+    .sort((a, b) => (a.layout.zIndex || 0) - (b.layout.zIndex || 0))
+    .forEach(draw);
+
+  return [
+    `<clipPath id="${clipId}"><rect width="${viewport.width}" height="${viewport.height}" /></clipPath>`,
+    `<rect width="${viewport.width}" height="${viewport.height}" class="lf-frame" />`,
+    `<g clip-path="url(#${clipId})">`,
+    ...[...boxes, ...measures].map((line) => `  ${line}`),
+    '</g>',
+  ];
+};
+
+const wrapSvg = (width: number, height: number, body: string[]) => [
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ...STYLE.map((line) => `  ${line}`),
+  ...body.map((line) => `  ${line}`),
+  '</svg>',
+  '',
+].join('\n');
+
+/**
+ * Draws the document at one viewport: a box per element at its resolved `_runtime` rect,
+ * labelled with its name. Pure, like the other exporters.
+ */
+export const exportSvg = (elements: LayoutElement[], options: SvgExportOptions = {}): string => {
+  const viewport = options.viewport || VIEWPORTS[0];
+  return wrapSvg(viewport.width, viewport.height, renderFrame(elements, viewport, !!options.annotations, 'lf-clip'));
+};
+
+/**
+ * One sheet with the document at several viewports side by side, each captioned with its
+ * name and size and aligned to the top.
+ */
+export const exportSvgSheet = (elements: LayoutElement[], options: SvgSheetOptions = {}): string => {
+  const viewports = options.viewports || VIEWPORTS;
+  const body: string[] = [];
+  let x = 0;
+  viewports.forEach((vp, i) => {
+    body.push(`<g transform="translate(${x} 0)">`);
+    body.push(`  <text x="0" y="${CAPTION_HEIGHT - 12}" class="lf-caption">${escapeXml(`${vp.name} · ${vp.width}×${vp.height}`)}</text>`);
+    body.push(`  <g transform="translate(0 ${CAPTION_HEIGHT})">`);
+    body.push(...renderFrame(elements, vp, !!options.annotations, `lf-clip-${i}`).map((line) => `    ${line}`));
+    body.push('  </g>');
+    body.push('</g>');
+    x += vp.width + SHEET_GAP;
+  });
+  const width = Math.max(0, x - SHEET_GAP);
+  const height = CAPTION_HEIGHT + Math.max(0, ...viewports.map((vp) => vp.height));
+  return wrapSvg(width, height, body);
+};